@@ -0,0 +1,10 @@
+import { Component, afterEveryRender } from '@angular/core';
+
+@Component({ selector: 'app-chart', template: '<canvas></canvas>' })
+export class ChartComponent {
+  constructor() {
+    afterEveryRender(() => this.draw());
+  }
+
+  private draw(): void {}
+}
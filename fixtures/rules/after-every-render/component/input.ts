@@ -0,0 +1,10 @@
+import { Component, afterRender } from '@angular/core';
+
+@Component({ selector: 'app-chart', template: '<canvas></canvas>' })
+export class ChartComponent {
+  constructor() {
+    afterRender(() => this.draw());
+  }
+
+  private draw(): void {}
+}
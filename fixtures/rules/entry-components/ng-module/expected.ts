@@ -0,0 +1,8 @@
+import { NgModule } from '@angular/core';
+import { ConfirmDialogComponent } from './confirm-dialog.component';
+
+@NgModule({
+  declarations: [ConfirmDialogComponent],
+  exports: [ConfirmDialogComponent]
+})
+export class DialogsModule {}
@@ -0,0 +1,9 @@
+import { NgModule } from '@angular/core';
+import { ConfirmDialogComponent } from './confirm-dialog.component';
+
+@NgModule({
+  declarations: [ConfirmDialogComponent],
+  exports: [ConfirmDialogComponent],
+  entryComponents: [ConfirmDialogComponent]
+})
+export class DialogsModule {}
@@ -0,0 +1,10 @@
+import { NgModule } from '@angular/core';
+import { HttpClientModule } from '@angular/common/http';
+import { AppComponent } from './app.component';
+
+@NgModule({
+  declarations: [AppComponent],
+  imports: [HttpClientModule],
+  bootstrap: [AppComponent]
+})
+export class AppModule {}
@@ -0,0 +1,10 @@
+import { NgModule } from '@angular/core';
+import { HttpModule } from '@angular/http';
+import { AppComponent } from './app.component';
+
+@NgModule({
+  declarations: [AppComponent],
+  imports: [HttpModule],
+  bootstrap: [AppComponent]
+})
+export class AppModule {}
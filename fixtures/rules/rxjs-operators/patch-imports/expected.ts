@@ -0,0 +1,10 @@
+import { Injectable } from '@angular/core';
+import { Observable, of } from 'rxjs';
+import { map, filter } from 'rxjs/operators';
+
+@Injectable()
+export class HeroService {
+  heroes(): Observable<string[]> {
+    return of(['Ada']).pipe(map(names => names));
+  }
+}
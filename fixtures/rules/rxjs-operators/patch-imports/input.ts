@@ -0,0 +1,10 @@
+import { Injectable } from '@angular/core';
+import { Observable, map, of } from 'rxjs';
+import 'rxjs/add/operator/filter';
+
+@Injectable()
+export class HeroService {
+  heroes(): Observable<string[]> {
+    return of(['Ada']).pipe(map(names => names));
+  }
+}
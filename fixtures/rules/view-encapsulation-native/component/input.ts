@@ -0,0 +1,8 @@
+import { Component, ViewEncapsulation } from '@angular/core';
+
+@Component({
+  selector: 'app-card',
+  template: '<ng-content></ng-content>',
+  encapsulation: ViewEncapsulation.Native
+})
+export class CardComponent {}
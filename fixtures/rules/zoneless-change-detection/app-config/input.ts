@@ -0,0 +1,5 @@
+import { ApplicationConfig, provideExperimentalZonelessChangeDetection } from '@angular/core';
+
+export const appConfig: ApplicationConfig = {
+  providers: [provideExperimentalZonelessChangeDetection()]
+};
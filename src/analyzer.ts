@@ -5,6 +5,7 @@
 
 import { runNgCommand } from './cliRunner';
 import { getAngularAST } from './initializeWorkspace';
+import { getRulePacks } from './errorClustering/rulePacks';
 import { logInfo, logError, logSection } from './logger';
 import { Conflict } from './types';
 
@@ -39,7 +40,10 @@ export async function runAngularUpdate(packages: string[], options: string[] = [
 
 /**
  * Collects TypeScript diagnostics from the workspace after upgrade.
- * Uses AngularAST to get semantic and syntactic diagnostics.
+ * Uses AngularAST to get semantic and syntactic diagnostics, plus the Angular
+ * compiler's template diagnostics (marked `source: 'template'`).
+ * Only files that changed since the last run, and the files depending on them,
+ * are type-checked again; the rest come from AngularAST's per-file cache.
  * 
  * @returns Promise resolving to an array of Conflict objects
  */
@@ -54,8 +58,10 @@ export async function collectDiagnostics(): Promise<Conflict[]> {
     }
 
     const conflicts = angularAST.getDiagnostics();
+    const templateConflicts = await angularAST.getTemplateDiagnostics();
+    conflicts.push(...templateConflicts);
 
-    logInfo(`Found ${conflicts.length} diagnostic issues`);
+    logInfo(`Found ${conflicts.length} diagnostic issues (${templateConflicts.length} in templates)`);
 
     // Log summary by severity
     const errors = conflicts.filter(c => c.severity === 'error').length;
@@ -67,6 +73,27 @@ export async function collectDiagnostics(): Promise<Conflict[]> {
     return conflicts;
 }
 
+/**
+ * Re-collects diagnostics for the given files and the files that import them,
+ * e.g. after fixing a root cause, instead of re-diagnosing the whole project.
+ * 
+ * @param filePaths - Files whose errors may have changed
+ * @returns Promise resolving to the diagnostics of the affected files
+ */
+export async function rediagnoseFiles(filePaths: string[]): Promise<Conflict[]> {
+    const angularAST = getAngularAST();
+
+    if (!angularAST) {
+        logError('Cannot collect diagnostics: AngularAST not initialized');
+        return [];
+    }
+
+    const conflicts = angularAST.getDiagnosticsForFiles(filePaths);
+    logInfo(`Re-diagnosed ${filePaths.length} file(s) and their dependents: ${conflicts.filter(c => c.severity === 'error').length} errors`);
+
+    return conflicts;
+}
+
 /**
  * Analyzes breaking changes between Angular versions.
  * Compares package.json versions to identify potential compatibility issues.
@@ -93,35 +120,10 @@ export async function analyzeBreakingChanges(fromVersion: string, toVersion: str
         logInfo(`Minor/patch version change: Breaking changes less likely`);
     }
 
-    // Common Angular breaking changes to look for
-    const knownBreakingChanges = [
-        {
-            fromVersion: 18,
-            toVersion: 19,
-            changes: [
-                'Standalone components are now the default',
-                'NgModules are deprecated',
-                'Dependency injection changes',
-                'Router configuration updates'
-            ]
-        },
-        {
-            fromVersion: 17,
-            toVersion: 18,
-            changes: [
-                'Control flow syntax (@if, @for)',
-                'Deferrable views',
-                'Built-in hydration'
-            ]
-        }
-    ];
-
-    // Find applicable breaking changes
-    for (const item of knownBreakingChanges) {
-        if (fromMajor === item.fromVersion && toMajor === item.toVersion) {
-            breakingChanges.push(...item.changes);
-            logInfo(`Found ${item.changes.length} known breaking changes for this upgrade`);
-        }
+    // Breaking changes of every major step between the two versions
+    for (const pack of getRulePacks(fromVersion, toVersion)) {
+        breakingChanges.push(...pack.breakingChanges);
+        logInfo(`v${pack.fromMajor} → v${pack.toMajor}: ${pack.breakingChanges.length} known breaking changes (${pack.sources[0]})`);
     }
 
     if (breakingChanges.length === 0) {
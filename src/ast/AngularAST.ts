@@ -1,30 +1,77 @@
-import { Project, SourceFile } from 'ts-morph';
+import { FileSystemRefreshResult, Node, Project, SourceFile, SyntaxKind, ts } from 'ts-morph';
 import * as path from 'path';
 import * as fs from 'fs';
+import * as crypto from 'crypto';
 import { logInfo, logError } from '../logger';
-import { Conflict } from '../types';
+import { Conflict, VerificationResult } from '../types';
+import { collectTemplateDiagnostics } from './templateDiagnostics';
+import { createFileMatcher, discoverTsConfigs, TsConfigEntry } from './tsconfigDiscovery';
+import { describeDiagnostic } from './diagnosticDetails';
+import { AngularArtifact, AngularInventory, collectArtifacts } from './angularInventory';
+
+/**
+ * One tsconfig loaded as its own ts-morph project, with its diagnostics cache.
+ */
+interface TsProgram extends TsConfigEntry {
+    project: Project;
+    /** Diagnostics per file, valid while the file's content hash matches */
+    diagnosticsCache: Map<string, { hash: string; conflicts: Conflict[] }>;
+    /** Files whose cached diagnostics are outdated because a file they depend on changed */
+    staleFiles: Set<string>;
+    /** Modification time of each file when the project last read it from disk */
+    fileTimes: Map<string, number>;
+    /** Whether the tsconfig's files/include/exclude take in a file the project does not have yet */
+    includesFile: (filePath: string) => boolean;
+}
 
 export class AngularAST {
-    private project: Project | null = null;
+    /** Build-target programs first; the first one is the primary project */
+    private programs: TsProgram[] = [];
     private rootPath: string;
 
     constructor(rootPath: string) {
         this.rootPath = rootPath;
     }
 
+    /**
+     * Loads every tsconfig of the workspace (angular.json build and test targets and
+     * project references) as a program of its own.
+     */
     async initialize(): Promise<boolean> {
         try {
-            const tsconfigPath = path.join(this.rootPath, 'tsconfig.json');
+            const entries = discoverTsConfigs(this.rootPath);
 
-            if (!fs.existsSync(tsconfigPath)) {
-                logError(`tsconfig.json not found at ${tsconfigPath}`);
+            if (entries.length === 0) {
+                logError(`tsconfig.json not found at ${path.join(this.rootPath, 'tsconfig.json')}`);
                 return false;
             }
 
-            this.project = new Project({
-                tsConfigFilePath: tsconfigPath,
-                skipAddingFilesFromTsConfig: false
-            });
+            const programs: TsProgram[] = [];
+            for (const entry of entries) {
+                try {
+                    const program: TsProgram = {
+                        ...entry,
+                        project: new Project({ tsConfigFilePath: entry.tsconfigPath, skipAddingFilesFromTsConfig: false }),
+                        diagnosticsCache: new Map(),
+                        staleFiles: new Set(),
+                        fileTimes: new Map(),
+                        includesFile: createFileMatcher(entry.tsconfigPath)
+                    };
+
+                    for (const sourceFile of this.getAnalyzedFiles(program)) {
+                        this.recordFileTime(program, sourceFile.getFilePath());
+                    }
+                    programs.push(program);
+                    logInfo(`Loaded ${entry.name} (${entry.origin}): ${this.getAnalyzedFiles(program).length} source files`);
+                } catch (error) {
+                    logError(`Failed to load ${entry.name}`, error as Error);
+                }
+            }
+
+            if (programs.length === 0) {
+                return false;
+            }
+            this.programs = [...programs.filter(p => p.isBuildTarget), ...programs.filter(p => !p.isBuildTarget)];
 
             logInfo('Angular AST initialized successfully');
             return true;
@@ -34,61 +81,502 @@ export class AngularAST {
         }
     }
 
-    getProject(): Project | null {
-        return this.project;
+    /**
+     * Returns the project of the first program that contains the file, or the primary
+     * project (the first build target's) when no file is given or no program has it.
+     */
+    getProject(filePath?: string): Project | null {
+        const owner = filePath ? this.programs.find(p => p.project.getSourceFile(filePath)) : undefined;
+        return (owner ?? this.programs[0])?.project ?? null;
+    }
+
+    /**
+     * Returns the project of every loaded program, primary first.
+     */
+    getProjects(): Project[] {
+        return this.programs.map(program => program.project);
+    }
+
+    /**
+     * Updates the in-memory source files after patches changed them.
+     * A null content removes the file from every program; unknown TypeScript files are
+     * added to the programs whose tsconfig includes them.
+     */
+    updateSourceFiles(changes: Array<{ filePath: string; content: string | null }>): void {
+        for (const program of this.programs) {
+            // Files importing a removed file are only known before the removal
+            const removed = changes.filter(c => c.content === null)
+                .map(c => program.project.getSourceFile(c.filePath))
+                .filter((f): f is SourceFile => !!f);
+            this.markChanged(program, removed);
+
+            this.replaceSourceFiles(program, changes);
+
+            const after = changes.map(c => program.project.getSourceFile(c.filePath)).filter((f): f is SourceFile => !!f);
+            this.markChanged(program, after);
+            for (const sourceFile of after) {
+                // Written by the patcher; the next disk refresh need not re-read them
+                this.recordFileTime(program, sourceFile.getFilePath());
+            }
+        }
+    }
+
+    /**
+     * Re-reads the project files changed on disk since the project last saw them,
+     * e.g. by `ng update` or the user, and drops files deleted on disk.
+     *
+     * @returns The paths of the refreshed and removed files
+     */
+    refreshChangedFiles(): string[] {
+        const refreshed = new Set<string>();
+
+        for (const program of this.programs) {
+            for (const sourceFile of this.getAnalyzedFiles(program)) {
+                const filePath = sourceFile.getFilePath();
+                const mtime = fs.existsSync(filePath) ? fs.statSync(filePath).mtimeMs : undefined;
+                if (mtime !== undefined && mtime === program.fileTimes.get(filePath)) {
+                    continue;
+                }
+
+                if (mtime === undefined) {
+                    // Its dependents are only known while the file is still in the project
+                    this.markChanged(program, [sourceFile]);
+                }
+
+                const result = sourceFile.refreshFromFileSystemSync();
+                if (result === FileSystemRefreshResult.Deleted) {
+                    program.fileTimes.delete(filePath);
+                    program.diagnosticsCache.delete(filePath);
+                    refreshed.add(filePath);
+                } else {
+                    this.recordFileTime(program, filePath);
+                    if (result === FileSystemRefreshResult.Updated) {
+                        this.markChanged(program, [sourceFile]);
+                        refreshed.add(filePath);
+                    }
+                }
+            }
+        }
+
+        if (refreshed.size > 0) {
+            logInfo(`Refreshed ${refreshed.size} file(s) changed on disk`);
+        }
+        return Array.from(refreshed);
     }
 
     /**
-     * Collects TypeScript diagnostics (errors) from the project.
+     * Collects TypeScript diagnostics (errors) from every program, each labelled with
+     * its program; a diagnostic reported by several programs is kept once.
+     * Files changed on disk are re-read first; only files that changed, or depend on
+     * a file that changed, since their last check are type-checked again.
      */
     getDiagnostics(): Conflict[] {
-        if (!this.project) {
+        if (this.programs.length === 0) {
             logError('AST not initialized');
             return [];
         }
 
+        this.refreshChangedFiles();
+
         const conflicts: Conflict[] = [];
-        const sourceFiles = this.project.getSourceFiles();
+        for (const program of this.programs) {
+            const sourceFiles = this.getAnalyzedFiles(program);
+            let checked = 0;
 
-        logInfo(`Analyzing ${sourceFiles.length} source files...`);
+            logInfo(`Analyzing ${sourceFiles.length} source files of ${program.name}...`);
 
-        for (const sourceFile of sourceFiles) {
-            // Skip node_modules and declaration files
-            if (sourceFile.getFilePath().includes('node_modules') || sourceFile.getFilePath().endsWith('.d.ts')) {
-                continue;
+            for (const sourceFile of sourceFiles) {
+                const { conflicts: fileConflicts, cached } = this.getCachedFileDiagnostics(program, sourceFile);
+                conflicts.push(...fileConflicts);
+                if (!cached) checked++;
             }
 
+            logInfo(`Type-checked ${checked} changed file(s), reused cached diagnostics for ${sourceFiles.length - checked}`);
+        }
+
+        return removeDuplicates(conflicts);
+    }
+
+    /**
+     * Collects Angular template type-checking diagnostics through the project's own
+     * Angular compiler, for each build-target program. Empty when the project has no
+     * @angular/compiler-cli.
+     */
+    async getTemplateDiagnostics(): Promise<Conflict[]> {
+        const conflicts: Conflict[] = [];
+
+        for (const program of this.programs.filter(p => p.isBuildTarget)) {
+            const programConflicts = await collectTemplateDiagnostics(this.rootPath, program.tsconfigPath);
+            conflicts.push(...programConflicts.map(conflict => ({ ...conflict, program: program.name })));
+        }
+
+        return removeDuplicates(conflicts);
+    }
+
+    /**
+     * Indexes the @Component, @Directive, @Pipe, @Injectable and @NgModule classes of
+     * every program's analyzed files. Files shared by several programs are indexed once.
+     */
+    getInventory(): AngularInventory {
+        this.refreshChangedFiles();
+
+        const artifacts: AngularArtifact[] = [];
+        const seen = new Set<string>();
+
+        for (const program of this.programs) {
+            for (const sourceFile of this.getAnalyzedFiles(program)) {
+                if (seen.has(sourceFile.getFilePath())) continue;
+                seen.add(sourceFile.getFilePath());
+                artifacts.push(...collectArtifacts(sourceFile));
+            }
+        }
+
+        return { generatedAt: new Date().toISOString(), artifacts };
+    }
+
+    /**
+     * Returns the Angular artifacts declared in one file, as currently held in memory.
+     */
+    getArtifactsForFile(filePath: string): AngularArtifact[] {
+        const sourceFile = this.getProject(filePath)?.getSourceFile(filePath);
+        return sourceFile ? collectArtifacts(sourceFile) : [];
+    }
+
+    /**
+     * Collects diagnostics for the given files and every project file that imports them,
+     * so a fix can be checked without re-diagnosing the whole project.
+     */
+    getDiagnosticsForFiles(filePaths: string[]): Conflict[] {
+        if (this.programs.length === 0) {
+            logError('AST not initialized');
+            return [];
+        }
+
+        const conflicts = this.programs.flatMap(program =>
+            this.getDiagnosticsForPaths(program, this.collectAffectedFiles(program, filePaths)));
+        return removeDuplicates(conflicts);
+    }
+
+    /**
+     * Checks proposed file contents against the in-memory programs without touching disk.
+     * The changed files and the files that import them are re-diagnosed with the new
+     * content, compared with the current diagnostics, and then restored.
+     *
+     * @param changes - Proposed contents (null = file deleted)
+     * @param targetConflict - The conflict the change is meant to fix, if known
+     */
+    verifyChanges(
+        changes: Array<{ filePath: string; content: string | null }>,
+        targetConflict?: Conflict
+    ): VerificationResult {
+        if (this.programs.length === 0) {
+            return { passed: true, newErrors: [], resolvedErrors: 0, checkedFiles: 0 };
+        }
+
+        const checkedFiles = new Set<string>();
+        const beforeAll: Conflict[] = [];
+        const afterAll: Conflict[] = [];
+
+        for (const program of this.programs) {
+            const affected = this.collectAffectedFiles(program, [
+                ...changes.map(c => c.filePath),
+                ...(targetConflict ? [targetConflict.filePath] : [])
+            ]);
+            affected.forEach(filePath => checkedFiles.add(filePath));
+
+            beforeAll.push(...this.getDiagnosticsForPaths(program, affected));
+            const restore = this.applySpeculatively(program, changes);
+
             try {
-                const diagnostics = sourceFile.getPreEmitDiagnostics();
+                // The speculative content must not end up in the cache
+                afterAll.push(...this.getDiagnosticsForPaths(program, affected, false));
+            } finally {
+                restore();
+            }
+        }
+
+        const before = removeDuplicates(beforeAll);
+        const after = removeDuplicates(afterAll);
+
+        const keyOf = (c: Conflict) => `${path.normalize(c.filePath)}\u0000${c.message}`;
+        const remaining = new Map<string, number>();
+        for (const conflict of before.filter(c => c.severity === 'error')) {
+            remaining.set(keyOf(conflict), (remaining.get(keyOf(conflict)) || 0) + 1);
+        }
+        // A target that is not currently reported (e.g. already fixed) cannot be checked
+        const targetKnown = targetConflict !== undefined && remaining.has(keyOf(targetConflict));
+
+        // Errors not present before the change (line numbers may shift, so match on file + message)
+        const newErrors: Conflict[] = [];
+        for (const conflict of after.filter(c => c.severity === 'error')) {
+            const count = remaining.get(keyOf(conflict)) || 0;
+            if (count > 0) {
+                remaining.set(keyOf(conflict), count - 1);
+            } else {
+                newErrors.push(conflict);
+            }
+        }
+
+        const resolvedErrors = Array.from(remaining.values()).reduce((sum, n) => sum + n, 0);
+        const targetResolved = targetKnown
+            ? (remaining.get(keyOf(targetConflict!)) || 0) > 0
+            : undefined;
+
+        return {
+            passed: newErrors.length === 0 && targetResolved !== false,
+            newErrors,
+            resolvedErrors,
+            targetResolved,
+            checkedFiles: checkedFiles.size
+        };
+    }
+
+    /**
+     * Returns the given files plus every file of the program that references them.
+     */
+    private collectAffectedFiles(program: TsProgram, filePaths: string[]): string[] {
+        const affected = new Set<string>();
+
+        for (const filePath of filePaths) {
+            affected.add(path.normalize(filePath));
+
+            const sourceFile = program.project.getSourceFile(filePath);
+            for (const dependent of sourceFile?.getReferencingSourceFiles() || []) {
+                affected.add(path.normalize(dependent.getFilePath()));
+            }
+        }
+
+        return Array.from(affected);
+    }
+
+    /**
+     * Collects diagnostics for the listed files that are part of the program.
+     */
+    private getDiagnosticsForPaths(program: TsProgram, filePaths: string[], useCache = true): Conflict[] {
+        const conflicts: Conflict[] = [];
+
+        for (const filePath of filePaths) {
+            const sourceFile = program.project.getSourceFile(filePath);
+            if (sourceFile) {
+                conflicts.push(...(useCache
+                    ? this.getCachedFileDiagnostics(program, sourceFile).conflicts
+                    : this.getFileDiagnostics(program, sourceFile)));
+            }
+        }
+
+        return conflicts;
+    }
+
+    /**
+     * Program files whose diagnostics are collected: no node_modules, no declaration files.
+     */
+    private getAnalyzedFiles(program: TsProgram): SourceFile[] {
+        return program.project.getSourceFiles().filter(sourceFile =>
+            !sourceFile.getFilePath().includes('node_modules') && !sourceFile.getFilePath().endsWith('.d.ts'));
+    }
+
+    /**
+     * Returns the diagnostics of a file from the cache when its content is unchanged
+     * and nothing it depends on changed; otherwise type-checks it and caches the result.
+     */
+    private getCachedFileDiagnostics(program: TsProgram, sourceFile: SourceFile): { conflicts: Conflict[]; cached: boolean } {
+        const filePath = sourceFile.getFilePath();
+        const hash = crypto.createHash('sha1').update(sourceFile.getFullText(), 'utf8').digest('hex');
+        const entry = program.diagnosticsCache.get(filePath);
+
+        if (entry && entry.hash === hash && !program.staleFiles.has(filePath)) {
+            return { conflicts: entry.conflicts, cached: true };
+        }
 
-                for (const diagnostic of diagnostics) {
-                    const message = diagnostic.getMessageText();
-                    const messageText = typeof message === 'string' ? message : message.getMessageText();
+        const conflicts = this.getFileDiagnostics(program, sourceFile);
+        program.diagnosticsCache.set(filePath, { hash, conflicts });
+        program.staleFiles.delete(filePath);
+        return { conflicts, cached: false };
+    }
+
+    /**
+     * Marks every file that depends on the changed files, directly or transitively, as stale.
+     * A changed global script or declaration file can affect any file, so it empties the cache.
+     */
+    private markChanged(program: TsProgram, sourceFiles: SourceFile[]): void {
+        const pending = [...sourceFiles];
+        const seen = new Set<SourceFile>(pending);
+
+        while (pending.length > 0) {
+            const sourceFile = pending.pop()!;
+            if (sourceFile.isDeclarationFile() || !ts.isExternalModule(sourceFile.compilerNode)) {
+                program.diagnosticsCache.clear();
+                program.staleFiles.clear();
+                return;
+            }
+
+            for (const dependent of sourceFile.getReferencingSourceFiles()) {
+                if (!seen.has(dependent)) {
+                    seen.add(dependent);
+                    program.staleFiles.add(dependent.getFilePath());
+                    pending.push(dependent);
+                }
+            }
+        }
+    }
+
+    private recordFileTime(program: TsProgram, filePath: string): void {
+        if (fs.existsSync(filePath)) {
+            program.fileTimes.set(filePath, fs.statSync(filePath).mtimeMs);
+        }
+    }
+
+    /**
+     * Puts proposed contents into the program and returns a function that undoes it.
+     */
+    private applySpeculatively(program: TsProgram, changes: Array<{ filePath: string; content: string | null }>): () => void {
+        const project = program.project;
+        const originals: Array<{ filePath: string; text: string | null }> = [];
 
-                    let lineNumber = 1;
-                    const start = diagnostic.getStart();
-                    if (start !== undefined) {
-                        lineNumber = sourceFile.getLineAndColumnAtPos(start).line;
+        for (const change of changes) {
+            const sourceFile = project.getSourceFile(change.filePath);
+            originals.push({ filePath: change.filePath, text: sourceFile ? sourceFile.getFullText() : null });
+        }
+
+        this.replaceSourceFiles(program, changes);
+
+        return () => {
+            for (const original of originals.reverse()) {
+                const sourceFile = project.getSourceFile(original.filePath);
+
+                if (original.text === null) {
+                    if (sourceFile) {
+                        project.removeSourceFile(sourceFile);
                     }
+                } else if (sourceFile) {
+                    sourceFile.replaceWithText(original.text);
+                } else {
+                    project.createSourceFile(original.filePath, original.text, { overwrite: true });
+                }
+            }
+        };
+    }
+
+    /**
+     * Writes contents into the program without touching the diagnostics cache.
+     */
+    private replaceSourceFiles(program: TsProgram, changes: Array<{ filePath: string; content: string | null }>): void {
+        for (const change of changes) {
+            const sourceFile = program.project.getSourceFile(change.filePath);
 
-                    const category = diagnostic.getCategory();
-                    // 1 = Error, 0 = Warning, 2 = Message, 3 = Suggestion
-                    let severity: 'error' | 'warning' | 'info' = 'info';
-                    if (category === 1) severity = 'error';
-                    else if (category === 0) severity = 'warning';
-
-                    conflicts.push({
-                        filePath: sourceFile.getFilePath(),
-                        lineNumber,
-                        message: messageText,
-                        severity
-                    });
+            try {
+                if (change.content === null) {
+                    if (sourceFile) {
+                        program.project.removeSourceFile(sourceFile);
+                    }
+                } else if (sourceFile) {
+                    sourceFile.replaceWithText(change.content);
+                } else if (/\.tsx?$/.test(change.filePath) && program.includesFile(change.filePath)) {
+                    // e.g. a spec file is not added to the app program, which lacks the test globals
+                    program.project.createSourceFile(change.filePath, change.content, { overwrite: true });
                 }
             } catch (error) {
-                console.error(`Error analyzing file ${sourceFile.getFilePath()}:`, error);
+                logError(`Failed to refresh ${change.filePath} in ${program.name}`, error as Error);
             }
         }
+    }
+
+    /**
+     * Converts the pre-emit diagnostics of one source file into conflicts labelled with the program.
+     */
+    private getFileDiagnostics(program: TsProgram, sourceFile: SourceFile): Conflict[] {
+        const conflicts: Conflict[] = [];
+
+        try {
+            const diagnostics = sourceFile.getPreEmitDiagnostics();
+
+            for (const diagnostic of diagnostics) {
+                const message = diagnostic.getMessageText();
+                const messageText = typeof message === 'string' ? message : message.getMessageText();
+
+                let lineNumber = 1;
+                let span: Pick<Conflict, 'start' | 'end' | 'nodeKind' | 'moduleSpecifier'> = {};
+                const start = diagnostic.getStart();
+                if (start !== undefined) {
+                    lineNumber = sourceFile.getLineAndColumnAtPos(start).line;
+                    const end = start + (diagnostic.getLength() ?? 0);
+                    span = { start, end, ...this.describeSpanContext(sourceFile, start, end) };
+                }
+
+                const category = diagnostic.getCategory();
+                // 1 = Error, 0 = Warning, 2 = Message, 3 = Suggestion
+                let severity: 'error' | 'warning' | 'info' = 'info';
+                if (category === 1) severity = 'error';
+                else if (category === 0) severity = 'warning';
+
+                conflicts.push({
+                    filePath: sourceFile.getFilePath(),
+                    lineNumber,
+                    message: messageText,
+                    severity,
+                    code: diagnostic.getCode(),
+                    program: program.name,
+                    ...span,
+                    ...describeDiagnostic(diagnostic.compilerObject)
+                });
+            }
+        } catch (error) {
+            console.error(`Error analyzing file ${sourceFile.getFilePath()}:`, error);
+        }
 
         return conflicts;
     }
+
+    /**
+     * Finds the AST node enclosing a diagnostic span and the module it involves:
+     * the import the span is in, or the import that binds the identifier it names.
+     */
+    private describeSpanContext(sourceFile: SourceFile, start: number, end: number): Pick<Conflict, 'nodeKind' | 'moduleSpecifier'> {
+        const token = sourceFile.getDescendantAtPos(start);
+        if (!token) {
+            return {};
+        }
+
+        // The token itself (usually an identifier) says little; its parent is the construct in error
+        let node: Node = token.getParent() ?? token;
+        while (node.getEnd() < end && node.getParent()) {
+            node = node.getParent()!;
+        }
+
+        const importDeclaration = Node.isImportDeclaration(node) ? node : token.getFirstAncestorByKind(SyntaxKind.ImportDeclaration);
+        let moduleSpecifier = importDeclaration?.getModuleSpecifierValue();
+
+        if (!moduleSpecifier) {
+            // For `a.b.c` the binding of `a` decides where the symbol comes from
+            let identifier: Node = Node.isPropertyAccessExpression(node) ? node : token;
+            while (Node.isPropertyAccessExpression(identifier)) {
+                identifier = identifier.getExpression();
+            }
+
+            const declaration = Node.isIdentifier(identifier)
+                ? identifier.getSymbol()?.getDeclarations().find(d =>
+                    Node.isImportSpecifier(d) || Node.isImportClause(d) || Node.isNamespaceImport(d))
+                : undefined;
+            moduleSpecifier = declaration?.getFirstAncestorByKind(SyntaxKind.ImportDeclaration)?.getModuleSpecifierValue();
+        }
+
+        return { nodeKind: node.getKindName(), moduleSpecifier };
+    }
+}
+
+/**
+ * Keeps the first of diagnostics reported at the same place by several programs,
+ * e.g. for a file compiled by both the app and the spec tsconfig.
+ */
+function removeDuplicates(conflicts: Conflict[]): Conflict[] {
+    const seen = new Set<string>();
+
+    return conflicts.filter(conflict => {
+        const key = [path.normalize(conflict.filePath), conflict.start ?? conflict.lineNumber, conflict.code, conflict.message].join('\u0000');
+        if (seen.has(key)) {
+            return false;
+        }
+        seen.add(key);
+        return true;
+    });
 }
@@ -0,0 +1,252 @@
+// angularInventory.ts
+// Indexes the Angular artifacts of a project: every class decorated with @Component,
+// @Directive, @Pipe, @Injectable or @NgModule, with what its decorator and members declare.
+// The index is read from the syntax only, so it also works while the project has errors.
+
+import { ClassDeclaration, Decorator, Node, ObjectLiteralExpression, SourceFile } from 'ts-morph';
+
+export type AngularArtifactKind = 'component' | 'directive' | 'pipe' | 'injectable' | 'ngModule';
+
+/**
+ * One decorated class. Lists hold the source text of their entries (e.g. `CommonModule`,
+ * `forwardRef(() => Child)`); properties the decorator does not set are absent.
+ */
+export interface AngularArtifact {
+    kind: AngularArtifactKind;
+    /** Class name */
+    name: string;
+    filePath: string;
+    lineNumber: number;
+    /** Components and directives */
+    selector?: string;
+    /** Pipes: the name used in templates */
+    pipeName?: string;
+    /** As declared; absent when the decorator does not say (the default is true from Angular 19) */
+    standalone?: boolean;
+    declarations?: string[];
+    imports?: string[];
+    exports?: string[];
+    /** Provider tokens: the `provide` of object providers, the class otherwise */
+    providers?: string[];
+    /** Injectables: `'root'`, `'platform'`, `'any'` or a module */
+    providedIn?: string;
+    templateUrl?: string;
+    /** Whether the component has an inline `template` */
+    inlineTemplate?: boolean;
+    /** `styleUrls`, or the single `styleUrl` */
+    styleUrls?: string[];
+    /** Public input names (aliases where given), from decorators, members and signal inputs */
+    inputs?: string[];
+    /** Public output names, from decorators, members and `output()`/`model()` */
+    outputs?: string[];
+}
+
+/**
+ * Every Angular artifact of a project.
+ */
+export interface AngularInventory {
+    generatedAt: string;
+    artifacts: AngularArtifact[];
+}
+
+const DECORATOR_KINDS: Record<string, AngularArtifactKind> = {
+    Component: 'component',
+    Directive: 'directive',
+    Pipe: 'pipe',
+    Injectable: 'injectable',
+    NgModule: 'ngModule'
+};
+
+/** Signal-based input functions and the output `model()` adds */
+const SIGNAL_INPUTS = new Set(['input', 'input.required', 'model', 'model.required']);
+const SIGNAL_OUTPUTS = new Set(['output', 'outputFromObservable']);
+
+/**
+ * Returns the Angular artifacts declared in a source file.
+ */
+export function collectArtifacts(sourceFile: SourceFile): AngularArtifact[] {
+    const artifacts: AngularArtifact[] = [];
+
+    for (const declaration of sourceFile.getClasses()) {
+        for (const decorator of declaration.getDecorators()) {
+            const kind = DECORATOR_KINDS[decorator.getName()];
+            if (kind) {
+                artifacts.push(describeArtifact(kind, declaration, decorator));
+            }
+        }
+    }
+
+    return artifacts;
+}
+
+/**
+ * Finds the component or directive whose selector matches an element or attribute name,
+ * e.g. `app-user-card` for `<app-user-card>` or `appHighlight` for `[appHighlight]`.
+ */
+export function findArtifactBySelector(inventory: AngularInventory, name: string): AngularArtifact | undefined {
+    return inventory.artifacts.find(artifact =>
+        artifact.selector?.split(',').some(part => {
+            const selector = part.trim();
+            return selector === name || selector === `[${name}]` || selector.split(/[[\]:.]/).includes(name);
+        }));
+}
+
+/**
+ * Finds an artifact by class name, or a pipe by the name templates use.
+ */
+export function findArtifactByName(inventory: AngularInventory, name: string): AngularArtifact | undefined {
+    return inventory.artifacts.find(artifact => artifact.name === name || artifact.pipeName === name);
+}
+
+/**
+ * One-line summary of an artifact, e.g. for prompts:
+ * `component UserCard (selector 'app-user-card', standalone, imports: CommonModule; inputs: user)`.
+ */
+export function summarizeArtifact(artifact: AngularArtifact): string {
+    const traits: string[] = [];
+    if (artifact.selector) traits.push(`selector '${artifact.selector}'`);
+    if (artifact.pipeName) traits.push(`name '${artifact.pipeName}'`);
+    if (artifact.standalone !== undefined) traits.push(artifact.standalone ? 'standalone' : 'not standalone');
+    if (artifact.providedIn) traits.push(`providedIn ${artifact.providedIn}`);
+
+    const lists: Array<[string, string[] | undefined]> = [
+        ['declarations', artifact.declarations], ['imports', artifact.imports], ['exports', artifact.exports],
+        ['providers', artifact.providers], ['inputs', artifact.inputs], ['outputs', artifact.outputs]
+    ];
+    const listed = lists
+        .filter(([, items]) => items && items.length > 0)
+        .map(([label, items]) => `${label}: ${items!.join(', ')}`);
+
+    const details = [traits.join(', '), listed.join('; ')].filter(Boolean).join(', ');
+    return `${artifact.kind} ${artifact.name}${details ? ` (${details})` : ''}`;
+}
+
+function describeArtifact(kind: AngularArtifactKind, declaration: ClassDeclaration, decorator: Decorator): AngularArtifact {
+    const artifact: AngularArtifact = {
+        kind,
+        name: declaration.getName() ?? '(anonymous)',
+        filePath: declaration.getSourceFile().getFilePath(),
+        lineNumber: declaration.getStartLineNumber()
+    };
+
+    const [argument] = decorator.getArguments();
+    const metadata = Node.isObjectLiteralExpression(argument) ? argument : undefined;
+
+    if (metadata) {
+        artifact.selector = readString(metadata, 'selector');
+        artifact.pipeName = kind === 'pipe' ? readString(metadata, 'name') : undefined;
+        artifact.standalone = readBoolean(metadata, 'standalone');
+        artifact.declarations = readList(metadata, 'declarations');
+        artifact.imports = readList(metadata, 'imports');
+        artifact.exports = readList(metadata, 'exports');
+        artifact.providers = readList(metadata, 'providers', providerToken);
+        artifact.providedIn = readString(metadata, 'providedIn') ?? readText(metadata, 'providedIn');
+        artifact.templateUrl = readString(metadata, 'templateUrl');
+        artifact.inlineTemplate = metadata.getProperty('template') ? true : undefined;
+
+        const styleUrl = readString(metadata, 'styleUrl');
+        artifact.styleUrls = readList(metadata, 'styleUrls', unquote) ?? (styleUrl ? [styleUrl] : undefined);
+    }
+
+    if (kind === 'component' || kind === 'directive') {
+        const { inputs, outputs } = collectBindings(declaration, metadata);
+        artifact.inputs = inputs.length > 0 ? inputs : undefined;
+        artifact.outputs = outputs.length > 0 ? outputs : undefined;
+    }
+
+    // Drop the properties the decorator does not set, so the JSON only holds what is declared
+    for (const key of Object.keys(artifact) as Array<keyof AngularArtifact>) {
+        if (artifact[key] === undefined) delete artifact[key];
+    }
+    return artifact;
+}
+
+/**
+ * Input and output names from the decorator's `inputs`/`outputs`, from @Input()/@Output()
+ * members and from signal-based `input()`, `model()` and `output()` members.
+ */
+function collectBindings(declaration: ClassDeclaration, metadata: ObjectLiteralExpression | undefined): { inputs: string[]; outputs: string[] } {
+    // `'name: alias'` entries expose the alias
+    const publicName = (entry: string) => unquote(entry).split(':').pop()!.trim();
+    const inputs = readList(metadata, 'inputs', publicName) ?? [];
+    const outputs = readList(metadata, 'outputs', publicName) ?? [];
+
+    for (const member of [...declaration.getProperties(), ...declaration.getSetAccessors()]) {
+        const name = member.getName();
+
+        for (const decorator of member.getDecorators()) {
+            const [alias] = decorator.getArguments();
+            const aliasText = alias && (Node.isStringLiteral(alias) || Node.isNoSubstitutionTemplateLiteral(alias))
+                ? alias.getLiteralText()
+                : alias && Node.isObjectLiteralExpression(alias) ? readString(alias, 'alias') : undefined;
+
+            if (decorator.getName() === 'Input') inputs.push(aliasText ?? name);
+            if (decorator.getName() === 'Output') outputs.push(aliasText ?? name);
+        }
+
+        const initializer = Node.isPropertyDeclaration(member) ? member.getInitializer() : undefined;
+        if (!initializer || !Node.isCallExpression(initializer)) continue;
+
+        const callee = initializer.getExpression().getText();
+        const options = initializer.getArguments().find(Node.isObjectLiteralExpression);
+        const alias = options ? readString(options, 'alias') : undefined;
+
+        if (SIGNAL_INPUTS.has(callee)) inputs.push(alias ?? name);
+        if (callee === 'model' || callee === 'model.required') outputs.push(`${alias ?? name}Change`);
+        if (SIGNAL_OUTPUTS.has(callee)) outputs.push(alias ?? name);
+    }
+
+    return { inputs, outputs };
+}
+
+function readString(metadata: ObjectLiteralExpression, property: string): string | undefined {
+    const value = getValue(metadata, property);
+    return value && (Node.isStringLiteral(value) || Node.isNoSubstitutionTemplateLiteral(value))
+        ? value.getLiteralText()
+        : undefined;
+}
+
+function readBoolean(metadata: ObjectLiteralExpression, property: string): boolean | undefined {
+    const value = getValue(metadata, property)?.getText();
+    return value === 'true' ? true : value === 'false' ? false : undefined;
+}
+
+function readText(metadata: ObjectLiteralExpression, property: string): string | undefined {
+    return getValue(metadata, property)?.getText();
+}
+
+/**
+ * Entries of an array property as source text (mapped), or the whole value when it is
+ * not an array literal (e.g. a constant holding the list).
+ */
+function readList(
+    metadata: ObjectLiteralExpression | undefined,
+    property: string,
+    map: (entry: string, node: Node) => string = entry => entry
+): string[] | undefined {
+    const value = metadata ? getValue(metadata, property) : undefined;
+    if (!value) {
+        return undefined;
+    }
+    if (!Node.isArrayLiteralExpression(value)) {
+        return [value.getText()];
+    }
+    return value.getElements().map(element => map(element.getText(), element));
+}
+
+function getValue(metadata: ObjectLiteralExpression, property: string): Node | undefined {
+    const assignment = metadata.getProperty(property);
+    if (assignment && Node.isPropertyAssignment(assignment)) {
+        return assignment.getInitializer();
+    }
+    // `{ imports }` shorthand refers to a variable of that name
+    return assignment && Node.isShorthandPropertyAssignment(assignment) ? assignment.getNameNode() : undefined;
+}
+
+function providerToken(entry: string, node: Node): string {
+    return Node.isObjectLiteralExpression(node) ? readText(node, 'provide') ?? entry : entry;
+}
+
+function unquote(text: string): string {
+    return text.replace(/^['"`]|['"`]$/g, '');
+}
@@ -0,0 +1,71 @@
+// diagnosticDetails.ts
+// Extracts what a compiler diagnostic says beyond its first message line: the exact
+// range, the whole message chain, the locations it relates to, and the code around it.
+// Used for TypeScript diagnostics and for Angular template diagnostics, which share
+// the TypeScript diagnostic shape.
+
+import * as path from 'path';
+import { ts } from 'ts-morph';
+import { Conflict, SourceRange } from '../types';
+
+/** Lines shown above and below the line in error */
+const EXCERPT_CONTEXT_LINES = 3;
+
+/**
+ * Returns the range, message chain, related locations and excerpt of a diagnostic.
+ */
+export function describeDiagnostic(diagnostic: ts.Diagnostic): Pick<Conflict, 'range' | 'messageChain' | 'relatedInformation' | 'excerpt'> {
+    const details: Pick<Conflict, 'range' | 'messageChain' | 'relatedInformation' | 'excerpt'> = {};
+
+    if (diagnostic.file && diagnostic.start !== undefined) {
+        details.range = rangeOf(diagnostic.file, diagnostic.start, diagnostic.length ?? 0);
+        details.excerpt = formatExcerpt(diagnostic.file.text.split(/\r?\n/), details.range.start.line);
+    }
+
+    // `getMessageText()` only gives the head of a chain; the nested lines say what actually mismatched
+    if (typeof diagnostic.messageText !== 'string' && diagnostic.messageText.next?.length) {
+        details.messageChain = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+    }
+
+    if (diagnostic.relatedInformation?.length) {
+        details.relatedInformation = diagnostic.relatedInformation.map(related => {
+            const range = related.file && related.start !== undefined
+                ? rangeOf(related.file, related.start, related.length ?? 0)
+                : undefined;
+            return {
+                filePath: related.file ? path.normalize(related.file.fileName) : '',
+                lineNumber: range?.start.line ?? 1,
+                range,
+                message: ts.flattenDiagnosticMessageText(related.messageText, '\n')
+            };
+        });
+    }
+
+    return details;
+}
+
+/**
+ * Numbers the lines around `lineNumber` (1-based) and marks that line with `>`.
+ */
+export function formatExcerpt(lines: string[], lineNumber: number): string {
+    const first = Math.max(1, lineNumber - EXCERPT_CONTEXT_LINES);
+    const last = Math.min(lines.length, lineNumber + EXCERPT_CONTEXT_LINES);
+
+    const excerpt: string[] = [];
+    for (let line = first; line <= last; line++) {
+        excerpt.push(`${String(line).padStart(4)}${line === lineNumber ? ' >' : '  '} ${lines[line - 1]}`);
+    }
+    return excerpt.join('\n');
+}
+
+/**
+ * Converts a span into 1-based lines and columns.
+ */
+function rangeOf(file: ts.SourceFile, start: number, length: number): SourceRange {
+    const from = file.getLineAndCharacterOfPosition(start);
+    const to = file.getLineAndCharacterOfPosition(start + length);
+    return {
+        start: { line: from.line + 1, column: from.character + 1 },
+        end: { line: to.line + 1, column: to.character + 1 }
+    };
+}
@@ -0,0 +1,164 @@
+// templateDiagnostics.ts
+// Collects Angular template type-checking diagnostics with the Angular compiler (ngtsc).
+// Plain TypeScript diagnostics miss template errors such as unknown elements, removed
+// structural directives or changed input types; those only surface in `ng build`.
+// The compiler is loaded from the Angular project itself, so its version matches the project.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { ts } from 'ts-morph';
+import { logInfo, logError } from '../logger';
+import { Conflict } from '../types';
+import { describeDiagnostic } from './diagnosticDetails';
+
+/** Angular error codes are reported as -99xxxx (e.g. NG8001 → -998001) */
+const NG_CODE_OFFSET = 990000;
+
+/**
+ * The parts of a TypeScript diagnostic read here; the compiler's own `typescript`
+ * package is used at runtime, so its types are not imported.
+ */
+interface NgDiagnostic {
+    file?: { fileName: string; getLineAndCharacterOfPosition(pos: number): { line: number; character: number } };
+    start?: number;
+    length?: number;
+    messageText: string | { messageText: string };
+    category: number;
+    code: number;
+    /** Set on template diagnostics */
+    componentFile?: unknown;
+    templateId?: unknown;
+}
+
+/**
+ * The parts of @angular/compiler-cli used here. The package comes from the project, so
+ * they are checked before use rather than trusted to match the version this was written for.
+ */
+interface NgCompilerCli {
+    readConfiguration(project: string): { rootNames: string[]; options: object; errors?: NgDiagnostic[] };
+    createCompilerHost(input: { options: object }): unknown;
+    NgtscProgram: new (rootNames: string[], options: object, host: unknown) => NgProgram;
+}
+
+interface NgProgram {
+    loadNgStructureAsync(): Promise<void>;
+    getNgSemanticDiagnostics(): readonly NgDiagnostic[];
+}
+
+// TypeScript compiles `import()` to `require()` for CommonJS output, which cannot load
+// the ES modules @angular/compiler-cli ships since v13; this keeps a real dynamic import
+const importModule = new Function('specifier', 'return import(specifier)') as (specifier: string) => Promise<unknown>;
+
+/**
+ * Type-checks the project's templates with ngtsc and returns the template diagnostics
+ * as conflicts with `source: 'template'`. External templates are reported against their
+ * `.html` file; inline templates against the component file.
+ *
+ * @param rootPath - Angular project root
+ * @param tsconfigPath - tsconfig carrying the Angular compiler options, e.g. the build target's
+ * @returns Promise resolving to the template conflicts (empty when the compiler is unavailable)
+ */
+export async function collectTemplateDiagnostics(rootPath: string, tsconfigPath: string): Promise<Conflict[]> {
+    if (!fs.existsSync(tsconfigPath)) {
+        return [];
+    }
+
+    let compilerCli: unknown;
+    try {
+        const entry = require.resolve('@angular/compiler-cli', { paths: [rootPath] });
+        compilerCli = await importModule(pathToFileURL(entry).href);
+    } catch (error: any) {
+        logInfo(`@angular/compiler-cli not found in the project - template diagnostics skipped (${error.message})`);
+        return [];
+    }
+    if (!isCompilerCli(compilerCli)) {
+        logInfo('@angular/compiler-cli in the project does not provide ngtsc (readConfiguration, createCompilerHost, NgtscProgram) - template diagnostics skipped');
+        return [];
+    }
+
+    try {
+        const config = compilerCli.readConfiguration(tsconfigPath);
+        if (config.errors && config.errors.length > 0) {
+            logError(`Angular compiler could not read ${path.basename(tsconfigPath)}: ${messageOf(config.errors[0])}`);
+            return [];
+        }
+
+        const host = compilerCli.createCompilerHost({ options: config.options });
+        const program = new compilerCli.NgtscProgram(config.rootNames, config.options, host);
+        if (typeof program.loadNgStructureAsync !== 'function' || typeof program.getNgSemanticDiagnostics !== 'function') {
+            logInfo('The project\'s NgtscProgram cannot report template diagnostics - template diagnostics skipped');
+            return [];
+        }
+        // Resolves templateUrl/styleUrls; the synchronous diagnostics below need them loaded
+        await program.loadNgStructureAsync();
+
+        const diagnostics = program.getNgSemanticDiagnostics();
+        const conflicts = diagnostics
+            .filter(isTemplateDiagnostic)
+            .map(diagnostic => toConflict(diagnostic));
+
+        logInfo(`Angular compiler reported ${conflicts.length} template diagnostic(s) for ${path.basename(tsconfigPath)}`);
+        return conflicts;
+    } catch (error: any) {
+        logError('Angular template type-checking failed', error);
+        return [];
+    }
+}
+
+/**
+ * Formats a diagnostic code the way the compilers print it: `NG8001` or `TS2322`.
+ */
+export function formatDiagnosticCode(code: number): string {
+    return code <= -NG_CODE_OFFSET ? `NG${-code - NG_CODE_OFFSET}` : `TS${code}`;
+}
+
+/**
+ * Whether the loaded module has the compiler-cli members used here.
+ */
+function isCompilerCli(value: unknown): value is NgCompilerCli {
+    const candidate = value as Partial<Record<keyof NgCompilerCli, unknown>> | null;
+    return typeof candidate?.readConfiguration === 'function' &&
+        typeof candidate.createCompilerHost === 'function' &&
+        typeof candidate.NgtscProgram === 'function';
+}
+
+/**
+ * Template diagnostics are tagged with their component, or point into a non-TypeScript file.
+ */
+function isTemplateDiagnostic(diagnostic: NgDiagnostic): boolean {
+    return diagnostic.templateId !== undefined || diagnostic.componentFile !== undefined ||
+        (diagnostic.file !== undefined && !/\.tsx?$/.test(diagnostic.file.fileName));
+}
+
+function toConflict(diagnostic: NgDiagnostic): Conflict {
+    // 1 = Error, 0 = Warning, 2 = Message, 3 = Suggestion
+    let severity: Conflict['severity'] = 'info';
+    if (diagnostic.category === 1) severity = 'error';
+    else if (diagnostic.category === 0) severity = 'warning';
+
+    const conflict: Conflict = {
+        filePath: diagnostic.file ? path.normalize(diagnostic.file.fileName) : '',
+        lineNumber: 1,
+        message: messageOf(diagnostic),
+        severity,
+        code: diagnostic.code,
+        // Keeps template errors apart from TypeScript errors with the same code when clustering
+        nodeKind: 'Template',
+        source: 'template',
+        // Same shape as a TypeScript diagnostic, though created by the compiler's own `typescript`
+        ...describeDiagnostic(diagnostic as unknown as ts.Diagnostic)
+    };
+
+    if (diagnostic.file && diagnostic.start !== undefined) {
+        conflict.lineNumber = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start).line + 1;
+        conflict.start = diagnostic.start;
+        conflict.end = diagnostic.start + (diagnostic.length ?? 0);
+    }
+
+    return conflict;
+}
+
+function messageOf(diagnostic: { messageText: string | { messageText: string } }): string {
+    return typeof diagnostic.messageText === 'string' ? diagnostic.messageText : diagnostic.messageText.messageText;
+}
@@ -0,0 +1,213 @@
+// tsconfigDiscovery.ts
+// Finds the tsconfig files an Angular workspace actually compiles with.
+// Modern workspaces keep a solution-style `tsconfig.json` that only lists `references`
+// to `tsconfig.app.json` and `tsconfig.spec.json`; the tsconfigs that carry sources are
+// named by the build and test targets in angular.json and by those project references.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ts } from 'ts-morph';
+import { logError } from '../logger';
+
+/** angular.json targets whose tsconfig is loaded */
+const ANGULAR_TARGETS = ['build', 'test'];
+
+/**
+ * A tsconfig loaded as a program of its own.
+ */
+export interface TsConfigEntry {
+    /** Label for diagnostics: the tsconfig path relative to the project root */
+    name: string;
+    tsconfigPath: string;
+    /** Why it was picked up: an angular.json target (e.g. `my-app:build`) or a project reference */
+    origin: string;
+    /** Whether an angular.json build target compiles with it */
+    isBuildTarget: boolean;
+}
+
+/**
+ * Lists the tsconfigs of a workspace: those of the angular.json build and test targets
+ * first, then every tsconfig they or the root tsconfig.json reference. Solution-style
+ * configs without sources of their own are left out. The root tsconfig.json is the
+ * only entry when nothing else is found.
+ *
+ * @param rootPath - Angular project root
+ */
+export function discoverTsConfigs(rootPath: string): TsConfigEntry[] {
+    const entries = new Map<string, TsConfigEntry>();
+    const add = (tsconfigPath: string, origin: string, isBuildTarget: boolean) => {
+        const resolved = path.resolve(rootPath, tsconfigPath);
+        const existing = entries.get(resolved);
+        if (existing) {
+            existing.isBuildTarget = existing.isBuildTarget || isBuildTarget;
+        } else if (fs.existsSync(resolved)) {
+            const name = path.relative(rootPath, resolved).split(path.sep).join('/');
+            entries.set(resolved, { name, tsconfigPath: resolved, origin, isBuildTarget });
+        }
+    };
+
+    for (const target of readAngularTargets(rootPath)) {
+        add(target.tsconfigPath, target.origin, target.isBuildTarget);
+    }
+
+    // Follow references breadth-first, starting from the root config and the target configs
+    const rootTsconfig = path.join(rootPath, 'tsconfig.json');
+    const queue = [rootTsconfig, ...entries.keys()];
+    const visited = new Set<string>();
+    while (queue.length > 0) {
+        const tsconfigPath = queue.shift()!;
+        if (visited.has(tsconfigPath)) continue;
+        visited.add(tsconfigPath);
+
+        for (const reference of readReferences(tsconfigPath)) {
+            add(reference, `referenced by ${path.relative(rootPath, tsconfigPath)}`, false);
+            queue.push(reference);
+        }
+    }
+
+    const found = Array.from(entries.values()).filter(entry => hasOwnSources(entry.tsconfigPath));
+    if (found.length === 0 && fs.existsSync(rootTsconfig)) {
+        return [{ name: 'tsconfig.json', tsconfigPath: rootTsconfig, origin: 'project root', isBuildTarget: true }];
+    }
+    return found;
+}
+
+/**
+ * Reads the tsconfig of every build and test target in angular.json.
+ */
+function readAngularTargets(rootPath: string): Array<{ tsconfigPath: string; origin: string; isBuildTarget: boolean }> {
+    const angularJsonPath = path.join(rootPath, 'angular.json');
+    if (!fs.existsSync(angularJsonPath)) {
+        return [];
+    }
+
+    let workspace: any;
+    try {
+        workspace = JSON.parse(fs.readFileSync(angularJsonPath, 'utf-8'));
+    } catch (error: any) {
+        logError(`Could not parse angular.json: ${error.message}`);
+        return [];
+    }
+
+    const targets: Array<{ tsconfigPath: string; origin: string; isBuildTarget: boolean }> = [];
+    for (const [projectName, project] of Object.entries<any>(workspace.projects ?? {})) {
+        // Newer workspaces may call the section `targets`
+        const architect = project?.architect ?? project?.targets ?? {};
+        for (const targetName of ANGULAR_TARGETS) {
+            const tsConfig = architect[targetName]?.options?.tsConfig;
+            if (typeof tsConfig === 'string') {
+                targets.push({
+                    tsconfigPath: path.join(rootPath, tsConfig),
+                    origin: `${projectName}:${targetName}`,
+                    isBuildTarget: targetName === 'build'
+                });
+            }
+        }
+    }
+    return targets;
+}
+
+/**
+ * Returns the tsconfig paths a tsconfig references; directory references point at their tsconfig.json.
+ */
+function readReferences(tsconfigPath: string): string[] {
+    const config = readConfig(tsconfigPath);
+    const references: Array<{ path?: string }> = Array.isArray(config?.references) ? config.references : [];
+
+    return references
+        .filter(reference => typeof reference.path === 'string')
+        .map(reference => {
+            const target = path.resolve(path.dirname(tsconfigPath), reference.path!);
+            return fs.existsSync(target) && fs.statSync(target).isDirectory() ? path.join(target, 'tsconfig.json') : target;
+        });
+}
+
+/**
+ * A solution-style tsconfig has `"files": []` and no `include`; it compiles nothing itself.
+ */
+function hasOwnSources(tsconfigPath: string): boolean {
+    const config = readConfig(tsconfigPath);
+    return !(Array.isArray(config?.files) && config.files.length === 0 && config.include === undefined);
+}
+
+/**
+ * Reads a tsconfig file, comments and trailing commas allowed.
+ */
+function readConfig(tsconfigPath: string): any {
+    if (!fs.existsSync(tsconfigPath)) {
+        return undefined;
+    }
+
+    const result = ts.readConfigFile(tsconfigPath, ts.sys.readFile);
+    if (result.error) {
+        logError(`Could not read ${tsconfigPath}: ${ts.flattenDiagnosticMessageText(result.error.messageText, '\n')}`);
+        return undefined;
+    }
+    return result.config;
+}
+
+/**
+ * Builds a test for whether a tsconfig compiles a file, by its `files`, `include` and
+ * `exclude` (after `extends`). The file does not need to exist, so files a patch
+ * creates can be placed in the programs that would compile them.
+ *
+ * @param tsconfigPath - tsconfig to read
+ * @returns A test on absolute paths; always false when the tsconfig cannot be read
+ */
+export function createFileMatcher(tsconfigPath: string): (filePath: string) => boolean {
+    const config = readConfig(tsconfigPath);
+    if (!config) {
+        return () => false;
+    }
+
+    // Records the include and exclude specs instead of listing directories
+    const specs: Array<{ rootDir: string; extensions: readonly string[]; includes: readonly string[]; excludes: readonly string[] }> = [];
+    const host: ts.ParseConfigHost = {
+        useCaseSensitiveFileNames: ts.sys.useCaseSensitiveFileNames,
+        fileExists: ts.sys.fileExists,
+        readFile: ts.sys.readFile,
+        readDirectory: (rootDir, extensions, excludes, includes) => {
+            specs.push({ rootDir, extensions, includes, excludes: excludes ?? [] });
+            return [];
+        }
+    };
+    const parsed = ts.parseJsonConfigFileContent(config, host, path.dirname(tsconfigPath), undefined, tsconfigPath);
+
+    const flags = ts.sys.useCaseSensitiveFileNames ? '' : 'i';
+    const toPattern = (filePath: string) => path.resolve(filePath).split(path.sep).join('/');
+    const files = new Set(parsed.fileNames.map(toPattern));
+    const globs = specs.map(spec => ({
+        extensions: spec.extensions,
+        includes: spec.includes.map(include => new RegExp(`^${globToRegExp(toPattern(path.resolve(spec.rootDir, include)), true)}$`, flags)),
+        // An excluded directory excludes everything below it
+        excludes: spec.excludes.map(exclude => new RegExp(`^${globToRegExp(toPattern(path.resolve(spec.rootDir, exclude)), false)}(?:/.*)?$`, flags))
+    }));
+
+    return filePath => {
+        const candidate = toPattern(filePath);
+        return files.has(candidate) || globs.some(glob =>
+            glob.extensions.some(extension => candidate.endsWith(extension)) &&
+            glob.includes.some(include => include.test(candidate)) &&
+            !glob.excludes.some(exclude => exclude.test(candidate)));
+    };
+}
+
+/**
+ * Translates a tsconfig wildcard path (`*`, `?` and `**`) into a regular expression source.
+ * An include whose last part has no wildcard and no extension names a directory.
+ */
+function globToRegExp(pattern: string, isInclude: boolean): string {
+    const parts = pattern.split('/');
+    const last = parts[parts.length - 1];
+    if (isInclude && !/[*?]/.test(last) && !last.includes('.')) {
+        parts.push('**', '*');
+    }
+
+    return parts.map((part, index) => {
+        if (part === '**') {
+            return index === parts.length - 1 ? '.*' : '(?:[^/]+/)*';
+        }
+        const source = part.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]');
+        return index === parts.length - 1 ? source : `${source}/`;
+    }).join('');
+}
@@ -0,0 +1,266 @@
+// clusterFix.ts
+// This module fixes every instance of an error cluster with one LLM request.
+// The LLM sees all instances and answers with a fix rule (applied to each instance like
+// a user rule) or with one patch per instance derived from the first. Each instance's
+// patch is then verified on its own, so a bad patch only fails its own instance.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ErrorCluster } from './errorClustering/ErrorClusterer';
+import { PatternFix, PatternMatcher } from './errorClustering/PatternMatcher';
+import { RuleLoader } from './errorClustering/RuleLoader';
+import { ClusterInstanceContext, ClusterFixSuggestion, generateClusterFix } from './llmClient';
+import { assessPatch, isInsideRoot, splitMultiFileDiff } from './patcher';
+import { formatExcerpt } from './ast/diagnosticDetails';
+import { AngularInventory, findArtifactByName, findArtifactBySelector, summarizeArtifact } from './ast/angularInventory';
+import { getAngularAST } from './initializeWorkspace';
+import { readFileContent, resolveWriteMode } from './workspaceWriter';
+import { logInfo, logError } from './logger';
+import { Conflict, Patch } from './types';
+
+/** Instances shown to the LLM; a rule still applies to the rest of the cluster */
+const MAX_PROMPT_INSTANCES = 20;
+
+/**
+ * Outcome for one instance of a cluster.
+ */
+export interface InstanceFixResult {
+    conflict: Conflict;
+    /**
+     * - patched: the instance has its own verified patch(es)
+     * - covered: the patch of an earlier instance already makes this change
+     * - skipped: no fix was attempted for the instance
+     * - failed: a fix was attempted but did not produce a verified patch
+     */
+    status: 'patched' | 'covered' | 'skipped' | 'failed';
+    /** Verified patches for this instance */
+    patches: Patch[];
+    /** Why the instance was skipped or failed */
+    error?: string;
+}
+
+/**
+ * Asks the LLM for one fix covering every instance of a cluster, turns it into
+ * patches per instance and verifies each of them against the in-memory project.
+ *
+ * @param cluster - Cluster to fix
+ * @param options - Project root, migration docs for the prompt, and the matcher that runs rule codemods
+ * @returns Promise resolving to one result per instance, in cluster order
+ */
+export async function fixClusterWithLLM(
+    cluster: ErrorCluster,
+    options: { rootPath: string; docs: string; patternMatcher: PatternMatcher }
+): Promise<InstanceFixResult[]> {
+    const shown = cluster.instances.slice(0, MAX_PROMPT_INSTANCES);
+    const inventory = shown.some(conflict => conflict.source === 'template') ? getAngularAST()?.getInventory() : undefined;
+    const contexts: ClusterInstanceContext[] = shown.map(conflict => ({
+        filePath: path.relative(options.rootPath, conflict.filePath),
+        lineNumber: conflict.lineNumber,
+        column: conflict.range?.start.column,
+        message: conflict.messageChain ?? conflict.message,
+        code: conflict.code,
+        related: conflict.relatedInformation?.map(related =>
+            `${path.relative(options.rootPath, related.filePath)}:${related.lineNumber}: ${related.message}`),
+        excerpt: conflict.excerpt ?? readExcerpt(conflict),
+        angular: describeAngularContext(conflict),
+        referenced: inventory && conflict.source === 'template' ? describeReferencedArtifacts(conflict, inventory) : undefined
+    }));
+
+    const suggestion = await generateClusterFix(contexts, options.docs);
+    const results = suggestion.rule
+        ? fixWithRule(cluster, suggestion.rule, options)
+        : fixWithPatches(cluster, suggestion, shown.length, options.rootPath);
+
+    for (const result of results) {
+        reportResult(result, options.rootPath);
+    }
+
+    const failed = results.filter(r => r.status === 'failed' || r.status === 'skipped').length;
+    logInfo(`Cluster ${cluster.id}: ${results.length - failed} of ${results.length} instance(s) fixed`);
+    return results;
+}
+
+/**
+ * Compiles the suggested rule and runs it on each instance, like a user rule.
+ */
+function fixWithRule(
+    cluster: ErrorCluster,
+    rule: unknown,
+    options: { rootPath: string; patternMatcher: PatternMatcher }
+): InstanceFixResult[] {
+    const fix: PatternFix | null = new RuleLoader(options.rootPath).compileRule(rule, 'the LLM');
+    if (!fix) {
+        return cluster.instances.map(conflict =>
+            ({ conflict, status: 'failed', patches: [], error: 'the suggested rule is invalid (see the log)' }));
+    }
+
+    const seen: Array<{ patch: Patch; owner: Conflict }> = [];
+    return cluster.instances.map(conflict => {
+        if (!fix.check(conflict)) {
+            return { conflict, status: 'failed', patches: [], error: 'the suggested rule does not match this instance' };
+        }
+
+        const single: ErrorCluster = { ...cluster, instances: [conflict], reasons: [], representative: conflict };
+        const patches = options.patternMatcher.generateFixes(single, fix);
+        if (patches.length === 0) {
+            return { conflict, status: 'failed', patches: [], error: 'the suggested rule changes nothing here' };
+        }
+
+        for (const patch of patches) {
+            patch.source = 'llm';
+            patch.description = fix.description;
+        }
+        return verifyInstance(conflict, patches, seen);
+    });
+}
+
+/**
+ * Pairs the suggested patches with the instances they are tagged with. Untagged
+ * patches belong to the worked example (the first instance).
+ */
+function fixWithPatches(
+    cluster: ErrorCluster,
+    suggestion: ClusterFixSuggestion,
+    shownCount: number,
+    rootPath: string
+): InstanceFixResult[] {
+    const seen: Array<{ patch: Patch; owner: Conflict }> = [];
+
+    return cluster.instances.map((conflict, index): InstanceFixResult => {
+        if (index >= shownCount) {
+            return { conflict, status: 'skipped', patches: [], error: `not shown to the LLM (only the first ${shownCount} instances are)` };
+        }
+
+        const forInstance = (p: { instance: number | null }) => p.instance === index || (index === 0 && p.instance === null);
+        const problems = (suggestion.rejected ?? []).filter(forInstance).map(r => r.reason);
+        const patches: Patch[] = [];
+
+        for (const { patch } of suggestion.patches.filter(forInstance)) {
+            // Resolve relative paths from LLM; nothing outside the project is written,
+            // including files a multi-file or create diff names in its own headers
+            const filePath = path.resolve(rootPath, patch.filePath);
+            const outside = [patch.filePath, ...splitMultiFileDiff(patch.diff).flatMap(file => [file.oldPath, file.newPath])]
+                .find(target => target !== null && !isInsideRoot(target, rootPath));
+            if (outside) {
+                problems.push(`the patch targets ${outside}, outside the project`);
+                continue;
+            }
+
+            patch.filePath = filePath;
+            // Remember the text it was generated against
+            if (fs.existsSync(patch.filePath)) {
+                patch.baseContent = readFileContent(patch.filePath, resolveWriteMode());
+            }
+            patches.push(patch);
+        }
+
+        if (patches.length === 0) {
+            return { conflict, status: 'failed', patches: [], error: problems.length > 0 ? problems.join('; ') : 'the LLM returned no patch for this instance' };
+        }
+
+        const result = verifyInstance(conflict, patches, seen);
+        if (problems.length === 0) {
+            return result;
+        }
+        return { ...result, error: [...problems, ...(result.error ? [result.error] : [])].join('; ') };
+    });
+}
+
+/**
+ * Checks an instance's patches speculatively, one by one. Patches that do not apply,
+ * add errors or leave the instance's error in place are dropped with the reason.
+ *
+ * @param seen - Patches verified for earlier instances, updated in place
+ */
+function verifyInstance(
+    conflict: Conflict,
+    patches: Patch[],
+    seen: Array<{ patch: Patch; owner: Conflict }>
+): InstanceFixResult {
+    const verified: Patch[] = [];
+    const problems: string[] = [];
+    let coveredBy: Conflict | null = null;
+
+    for (const patch of patches) {
+        // File-wide edits come out the same for every instance in the file
+        const earlier = seen.find(s => s.patch.filePath === patch.filePath && s.patch.diff === patch.diff);
+        if (earlier) {
+            coveredBy = earlier.owner;
+            continue;
+        }
+
+        patch.targetConflict = conflict;
+        const { confidence, verification, error } = assessPatch(patch);
+
+        if (error) {
+            problems.push(`the patch does not apply: ${error}`);
+        } else if (verification && verification.newErrors.length > 0) {
+            problems.push(`the patch introduces ${verification.newErrors.length} new error(s), e.g. "${verification.newErrors[0].message}"`);
+        } else if (verification?.targetResolved === false) {
+            problems.push('the error is still reported with the patch applied');
+        } else {
+            patch.confidence = confidence;
+            verified.push(patch);
+            seen.push({ patch, owner: conflict });
+        }
+    }
+
+    if (verified.length > 0) {
+        return { conflict, status: 'patched', patches: verified, error: problems.length > 0 ? problems.join('; ') : undefined };
+    }
+    if (coveredBy && problems.length === 0) {
+        return { conflict, status: 'covered', patches: [], error: `fixed by the patch for ${path.basename(coveredBy.filePath)}:${coveredBy.lineNumber}` };
+    }
+    return { conflict, status: 'failed', patches: [], error: problems.join('; ') };
+}
+
+/**
+ * Logs the outcome of one instance.
+ */
+function reportResult(result: InstanceFixResult, rootPath: string): void {
+    const location = `${path.relative(rootPath, result.conflict.filePath)}:${result.conflict.lineNumber}`;
+
+    switch (result.status) {
+        case 'patched':
+            logInfo(`  ✓ ${location}: ${result.patches.length} patch(es) verified (${result.patches
+                .map(p => `${Math.round((p.confidence ?? 0) * 100)}%`).join(', ')} confidence)`);
+            break;
+        case 'covered':
+            logInfo(`  ✓ ${location}: ${result.error}`);
+            break;
+        default:
+            logError(`  ✗ ${location}: ${result.error}`);
+    }
+}
+
+/**
+ * Returns numbered source lines around a conflict that was diagnosed without an excerpt.
+ */
+function readExcerpt(conflict: Conflict): string {
+    if (!fs.existsSync(conflict.filePath)) {
+        return `// Error at ${conflict.filePath}:${conflict.lineNumber}`;
+    }
+
+    return formatExcerpt(readFileContent(conflict.filePath, resolveWriteMode()).split(/\r?\n/), conflict.lineNumber);
+}
+
+/**
+ * Summarizes the Angular artifacts declared in a conflict's file, so the LLM knows
+ * e.g. whether the class is a standalone component and what it imports.
+ */
+function describeAngularContext(conflict: Conflict): string[] | undefined {
+    const artifacts = getAngularAST()?.getArtifactsForFile(conflict.filePath) ?? [];
+    return artifacts.length > 0 ? artifacts.map(summarizeArtifact) : undefined;
+}
+
+/**
+ * Summarizes the artifacts a template diagnostic names, e.g. the component behind
+ * `'app-user-card' is not a known element` or the pipe of `No pipe found with name 'date'`.
+ */
+function describeReferencedArtifacts(conflict: Conflict, inventory: AngularInventory): string[] | undefined {
+    const names = Array.from(conflict.message.matchAll(/'([^']+)'/g), match => match[1]);
+    const artifacts = new Set(names
+        .map(name => findArtifactBySelector(inventory, name) ?? findArtifactByName(inventory, name))
+        .filter(artifact => artifact !== undefined));
+    return artifacts.size > 0 ? Array.from(artifacts, summarizeArtifact) : undefined;
+}
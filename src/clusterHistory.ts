@@ -0,0 +1,197 @@
+// clusterHistory.ts
+// This module remembers error clusters across migration runs. Each cluster is stored in
+// the workspace state under a fingerprint that survives re-clustering, with its instance
+// count and the decision taken on it, so the next run can tell which clusters are new,
+// resolved or regressed, and leaves alone the ones marked "won't fix".
+
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { ClusterKey, ErrorCluster } from './errorClustering/ErrorClusterer';
+import { logInfo } from './logger';
+
+/**
+ * What happened to a cluster in the run that last saw it.
+ * - approved: its fixes were applied (after review or automatically)
+ * - rejected: its fixes were rejected in review
+ * - skipped: no fix was applied or decided on
+ * - wont-fix: the user excluded it from future runs
+ */
+export type ClusterDecision = 'approved' | 'rejected' | 'skipped' | 'wont-fix';
+
+/**
+ * A cluster as stored in the workspace state.
+ */
+export interface ClusterRecord {
+    fingerprint: string;
+    pattern: string;
+    /** Instances in the last run that saw the cluster */
+    instanceCount: number;
+    decision: ClusterDecision;
+    firstSeen: string;
+    lastSeen: string;
+    /** Set once a run no longer reports the cluster */
+    resolvedAt?: string;
+}
+
+/**
+ * How the clusters of this run compare with the stored history.
+ */
+export interface ClusterProgress {
+    /** Clusters never seen before */
+    newClusters: ErrorCluster[];
+    /** Clusters that came back after being resolved, or grew since the last run */
+    regressed: Array<{ cluster: ErrorCluster; previousCount: number }>;
+    /** Clusters of the last run that are gone now */
+    resolved: ClusterRecord[];
+    /** Clusters the user marked "won't fix"; they are not proposed again */
+    wontFix: ErrorCluster[];
+}
+
+const HISTORY_KEY = 'angularUpgrade.clusterHistory';
+
+let workspaceState: vscode.Memento | undefined;
+
+/**
+ * Sets up the history store. Should be called during extension activation.
+ *
+ * @param context - Extension context providing the workspace state
+ */
+export function initializeClusterHistory(context: vscode.ExtensionContext): void {
+    workspaceState = context.workspaceState;
+}
+
+/**
+ * Identifies a cluster independently of its id and instances: root causes by the
+ * symbol that fails to resolve, other clusters by their key.
+ */
+export function fingerprintCluster(cluster: ErrorCluster): string {
+    return cluster.rootCause ? fingerprint(`root:${cluster.rootCause.key}`) : fingerprintKey(cluster.key);
+}
+
+/**
+ * Fingerprint of a cluster key, e.g. for follow-on errors held back under a root cause.
+ * Every field counts, so marking one cluster "won't fix" does not hide clusters that
+ * only share its code with it.
+ */
+export function fingerprintKey(key: ClusterKey): string {
+    return fingerprint(JSON.stringify([key.code, key.nodeKind, key.moduleSpecifier, key.symbol, key.messagePattern, key.notMatching]));
+}
+
+function fingerprint(text: string): string {
+    return crypto.createHash('sha256').update(text, 'utf8').digest('hex').slice(0, 16);
+}
+
+/**
+ * Returns every stored cluster record, most recently seen first.
+ */
+export function getClusterHistory(): ClusterRecord[] {
+    const records = workspaceState?.get<ClusterRecord[]>(HISTORY_KEY, []) ?? [];
+    return [...records].sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+}
+
+/**
+ * Compares this run's clusters with the history.
+ *
+ * @param clusters - Clusters of this run
+ * @param heldBack - Fingerprints of clusters not formed yet because their errors wait
+ *                   for a root cause; they are not counted as resolved
+ */
+export function compareWithHistory(clusters: ErrorCluster[], heldBack: string[] = []): ClusterProgress {
+    const records = new Map(getClusterHistory().map(record => [record.fingerprint, record]));
+    const present = new Set([...clusters.map(fingerprintCluster), ...heldBack]);
+    const progress: ClusterProgress = { newClusters: [], regressed: [], resolved: [], wontFix: [] };
+
+    for (const cluster of clusters) {
+        const record = records.get(fingerprintCluster(cluster));
+
+        if (!record) {
+            progress.newClusters.push(cluster);
+        } else if (record.decision === 'wont-fix') {
+            progress.wontFix.push(cluster);
+        } else if (record.resolvedAt || cluster.instances.length > record.instanceCount) {
+            progress.regressed.push({ cluster, previousCount: record.resolvedAt ? 0 : record.instanceCount });
+        }
+    }
+
+    progress.resolved = Array.from(records.values())
+        .filter(record => !record.resolvedAt && !present.has(record.fingerprint));
+
+    return progress;
+}
+
+/**
+ * Whether the user marked the cluster "won't fix".
+ */
+export function isWontFix(cluster: ErrorCluster): boolean {
+    return getClusterHistory().some(record =>
+        record.fingerprint === fingerprintCluster(cluster) && record.decision === 'wont-fix');
+}
+
+/**
+ * Stores the clusters of a finished run. Clusters no longer reported are marked
+ * resolved; "won't fix" decisions are kept whatever happened in the run.
+ *
+ * @param clusters - Every cluster of the run, including follow-up clusters
+ * @param decisions - Decisions taken in the run; clusters without one were skipped
+ * @param heldBack - Fingerprints of clusters whose errors still wait for a root cause
+ */
+export async function saveClusterRun(
+    clusters: ErrorCluster[],
+    decisions: Map<ErrorCluster, ClusterDecision>,
+    heldBack: string[] = []
+): Promise<void> {
+    if (!workspaceState) {
+        return;
+    }
+
+    const now = new Date().toISOString();
+    const records = new Map(getClusterHistory().map(record => [record.fingerprint, record]));
+    const present = new Set(heldBack);
+
+    for (const cluster of clusters) {
+        const fingerprint = fingerprintCluster(cluster);
+        const previous = records.get(fingerprint);
+        present.add(fingerprint);
+
+        records.set(fingerprint, {
+            fingerprint,
+            pattern: cluster.pattern,
+            instanceCount: cluster.instances.length,
+            decision: previous?.decision === 'wont-fix' ? 'wont-fix' : decisions.get(cluster) ?? 'skipped',
+            firstSeen: previous?.firstSeen ?? now,
+            lastSeen: now
+        });
+    }
+
+    for (const record of records.values()) {
+        if (!present.has(record.fingerprint) && !record.resolvedAt) {
+            record.resolvedAt = now;
+        }
+    }
+
+    await workspaceState.update(HISTORY_KEY, Array.from(records.values()));
+    logInfo(`Saved ${clusters.length} cluster(s) to the cluster history`);
+}
+
+/**
+ * Marks clusters "won't fix", or takes the mark off again.
+ *
+ * @param fingerprints - Clusters to change
+ * @param wontFix - True to exclude them from future runs, false to propose them again
+ */
+export async function setWontFix(fingerprints: string[], wontFix: boolean): Promise<void> {
+    if (!workspaceState) {
+        return;
+    }
+
+    const records = getClusterHistory();
+    for (const record of records.filter(r => fingerprints.includes(r.fingerprint))) {
+        if (wontFix) {
+            record.decision = 'wont-fix';
+        } else if (record.decision === 'wont-fix') {
+            record.decision = 'skipped';
+        }
+    }
+
+    await workspaceState.update(HISTORY_KEY, records);
+}
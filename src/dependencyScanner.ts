@@ -93,15 +93,18 @@ export async function scanImports(projectRoot?: string): Promise<Map<string, str
     logSection('Scanning Project Imports');
 
     const angularAST = getAngularAST();
-    const project = angularAST?.getProject();
+    const projects = angularAST?.getProjects() ?? [];
 
-    if (!project) {
+    if (projects.length === 0) {
         logError('Cannot scan imports: ts-morph Project not initialized');
         return new Map();
     }
 
     const importMap = new Map<string, string[]>();
-    const sourceFiles = project.getSourceFiles();
+    // A file compiled by several programs (e.g. app and spec tsconfig) is scanned once
+    const sourceFiles = Array.from(new Map(projects
+        .flatMap(project => project.getSourceFiles())
+        .map(sourceFile => [sourceFile.getFilePath(), sourceFile])).values());
 
     logInfo(`Analyzing imports in ${sourceFiles.length} files...`);
 
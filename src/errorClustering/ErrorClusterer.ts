@@ -1,40 +1,229 @@
+import * as path from 'path';
+import { Project } from 'ts-morph';
 import { Conflict } from '../types';
+import { RootCause, buildCausalGraph } from './causalGraph';
+import { formatDiagnosticCode } from '../ast/templateDiagnostics';
+
+/**
+ * What every instance of a cluster has in common.
+ * Diagnostics with a TypeScript code are keyed structurally; others fall back to their message.
+ */
+export interface ClusterKey {
+    code?: number;
+    nodeKind?: string;
+    moduleSpecifier?: string;
+    /** Name the diagnostic is about (e.g. the missing export), for codes whose message names one */
+    symbol?: string;
+    /** Message with variable parts masked, used only when there is no diagnostic code */
+    messagePattern?: string;
+    /** Id of a pattern fix these instances do not match, when they were split off a cluster it fixed */
+    notMatching?: string;
+}
+
+/**
+ * Which quoted argument of the message is the failing symbol, per diagnostic code.
+ * Errors with these codes about different names usually need different fixes.
+ */
+const SYMBOL_ARGUMENT: Record<number, number> = {
+    2304: 0, // Cannot find name 'X'
+    2305: 1, // Module '"m"' has no exported member 'X'
+    2339: 0, // Property 'X' does not exist on type 'T'
+    2551: 0, // Property 'X' does not exist on type 'T'. Did you mean 'Y'?
+    2552: 0, // Cannot find name 'X'. Did you mean 'Y'?
+    2614: 1, // Module '"m"' has no exported member 'X'. Did you mean to use 'import X from "m"' instead?
+    2694: 1, // Namespace 'N' has no exported member 'X'
+    2724: 1  // '"m"' has no exported member named 'X'. Did you mean 'Y'?
+};
 
 export interface ErrorCluster {
     id: string;
     pattern: string;
+    key: ClusterKey;
     instances: Conflict[];
+    /** Why each instance (same index as `instances`) belongs to the cluster */
+    reasons: string[];
     representative: Conflict;
+    /**
+     * Set when the cluster is an unresolved import or missing export. Its follow-on
+     * errors are not clustered; they are re-diagnosed once the root cause is fixed.
+     */
+    rootCause?: RootCause;
 }
 
 export class ErrorClusterer {
+    private nextId = 1;
+
     /**
-     * Groups similar errors into clusters based on error messages.
+     * Groups similar errors into clusters by TypeScript diagnostic code, the kind of
+     * AST node in error and the module involved, so errors are grouped by what is
+     * wrong rather than by how the message happens to be worded.
      * This reduces the number of LLM calls by treating similar errors as one pattern.
+     *
+     * With the project the errors came from, errors caused by the same unresolved
+     * import or missing export collapse into one root-cause cluster. Root causes come
+     * first, so they are fixed before anything that may only be a consequence of them.
+     *
+     * @param conflicts - Errors to cluster
+     * @param project - ts-morph project used to trace errors back to their root cause
      */
-    clusterErrors(conflicts: Conflict[]): ErrorCluster[] {
+    clusterErrors(conflicts: Conflict[], project?: Project): ErrorCluster[] {
+        if (!project) {
+            return this.groupByKey(conflicts);
+        }
+
+        const graph = buildCausalGraph(conflicts, project);
+        const rootCauseClusters = graph.rootCauses.map(rootCause => this.createRootCauseCluster(rootCause));
+        return [...rootCauseClusters, ...this.groupByKey(graph.independent)];
+    }
+
+    /**
+     * Key of the cluster a conflict would join when clustered on its own
+     * (e.g. a follow-on error that is held back under its root cause).
+     */
+    keyOf(conflict: Conflict): ClusterKey {
+        return this.generateClusterKey(conflict);
+    }
+
+    /**
+     * Moves instances out of a cluster into one of their own, for instances a pattern fix
+     * matched on the cluster's representative does not match. They get a key of their
+     * own, so they are matched against the other patterns or sent to the LLM.
+     *
+     * @param cluster - Cluster the pattern fix matched; the instances are removed from it
+     * @param instances - Instances of the cluster the pattern does not match
+     * @param patternId - Id of the pattern fix
+     */
+    splitCluster(cluster: ErrorCluster, instances: Conflict[], patternId: string): ErrorCluster {
+        const kept = cluster.instances.map((conflict, index) => ({ conflict, reason: cluster.reasons[index] }))
+            .filter(({ conflict }) => !instances.includes(conflict));
+        cluster.instances = kept.map(({ conflict }) => conflict);
+        cluster.reasons = kept.map(({ reason }) => reason);
+
+        const key: ClusterKey = { ...cluster.key, notMatching: patternId };
+        const split: ErrorCluster = {
+            id: `cluster-${this.nextId++}`,
+            pattern: this.describeKey(key),
+            key,
+            instances,
+            reasons: [],
+            representative: instances[0]
+        };
+        split.reasons = instances.map(conflict => this.explainMembership(conflict, split));
+        return split;
+    }
+
+    private createRootCauseCluster(rootCause: RootCause): ErrorCluster {
+        const representative = rootCause.conflicts[0];
+        const reasons = rootCause.conflicts.map(conflict => conflict === representative
+            ? `${formatLocation(conflict)} is the representative (${rootCause.symbol} does not resolve)`
+            : `${formatLocation(conflict)} imports ${rootCause.symbol} as well`);
+
+        return {
+            id: `cluster-${this.nextId++}`,
+            pattern: `Root cause: ${rootCause.symbol}`,
+            key: this.generateClusterKey(representative),
+            instances: rootCause.conflicts,
+            reasons,
+            representative,
+            rootCause
+        };
+    }
+
+    private groupByKey(conflicts: Conflict[]): ErrorCluster[] {
         const clusters: Map<string, ErrorCluster> = new Map();
 
         for (const conflict of conflicts) {
-            // Create a simplified pattern key by removing variable parts like line numbers, file paths, or specific variable names
-            // This is a heuristic approach
-            const patternKey = this.generatePatternKey(conflict.message);
+            const key = this.generateClusterKey(conflict);
+            const patternKey = this.describeKey(key);
 
             if (!clusters.has(patternKey)) {
                 clusters.set(patternKey, {
-                    id: `cluster-${clusters.size + 1}`,
+                    id: `cluster-${this.nextId++}`,
                     pattern: patternKey,
+                    key,
                     instances: [],
+                    reasons: [],
                     representative: conflict
                 });
             }
 
-            clusters.get(patternKey)!.instances.push(conflict);
+            const cluster = clusters.get(patternKey)!;
+            cluster.instances.push(conflict);
+            cluster.reasons.push(this.explainMembership(conflict, cluster));
         }
 
         return Array.from(clusters.values());
     }
 
+    private generateClusterKey(conflict: Conflict): ClusterKey {
+        if (conflict.code === undefined) {
+            // The whole chain, so errors that only differ further down are not lumped together
+            return { nodeKind: conflict.nodeKind, messagePattern: this.generatePatternKey(conflict.messageChain ?? conflict.message) };
+        }
+
+        return {
+            code: conflict.code,
+            nodeKind: conflict.nodeKind,
+            moduleSpecifier: conflict.moduleSpecifier,
+            symbol: this.failingSymbol(conflict)
+        };
+    }
+
+    /**
+     * The name a diagnostic is about, read from its message for the codes in SYMBOL_ARGUMENT.
+     */
+    private failingSymbol(conflict: Conflict): string | undefined {
+        const argument = conflict.code !== undefined ? SYMBOL_ARGUMENT[conflict.code] : undefined;
+        if (argument === undefined) {
+            return undefined;
+        }
+
+        const quoted = Array.from(conflict.message.matchAll(/'([^']*)'/g), match => match[1]);
+        return quoted[argument];
+    }
+
+    /**
+     * Readable form of a key, e.g. `TS2305 'Http' at ImportSpecifier from '@angular/http'`.
+     */
+    private describeKey(key: ClusterKey): string {
+        const parts = [key.code !== undefined ? formatDiagnosticCode(key.code) : `"${key.messagePattern}"`];
+        if (key.symbol !== undefined) {
+            parts.push(`'${key.symbol}'`);
+        }
+        if (key.nodeKind) {
+            parts.push(`at ${key.nodeKind}`);
+        }
+        if (key.moduleSpecifier) {
+            parts.push(`from '${key.moduleSpecifier}'`);
+        }
+        if (key.notMatching) {
+            parts.push(`not matching ${key.notMatching}`);
+        }
+        return parts.join(' ');
+    }
+
+    private explainMembership(conflict: Conflict, cluster: ErrorCluster): string {
+        const location = formatLocation(conflict);
+        if (conflict === cluster.representative) {
+            return `${location} is the representative (${cluster.pattern})`;
+        }
+
+        const shared = cluster.key.code !== undefined
+            ? [`diagnostic ${formatDiagnosticCode(cluster.key.code)}`]
+            : ['message pattern'];
+        if (cluster.key.symbol !== undefined) {
+            shared.push(`symbol '${cluster.key.symbol}'`);
+        }
+        if (cluster.key.nodeKind) {
+            shared.push(`node kind ${cluster.key.nodeKind}`);
+        }
+        if (cluster.key.moduleSpecifier) {
+            shared.push(`module '${cluster.key.moduleSpecifier}'`);
+        }
+        const notMatching = cluster.key.notMatching ? ` and does not match ${cluster.key.notMatching} either` : '';
+        return `${location} shares ${shared.join(', ')} with ${formatLocation(cluster.representative)}${notMatching}`;
+    }
+
     private generatePatternKey(message: string): string {
         // 1. Remove quoted strings (often variable names)
         let key = message.replace(/['"][^'"]*['"]/g, '<STRING>');
@@ -48,3 +237,11 @@ export class ErrorClusterer {
         return key.trim();
     }
 }
+
+/**
+ * `file.ts:12:5`, or `file.ts:12` when the column is not known.
+ */
+function formatLocation(conflict: Conflict): string {
+    const column = conflict.range ? `:${conflict.range.start.column}` : '';
+    return `${path.basename(conflict.filePath)}:${conflict.lineNumber}${column}`;
+}
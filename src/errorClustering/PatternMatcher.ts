@@ -1,86 +1,63 @@
+import * as fs from 'fs';
+import { Project, QuoteKind, SourceFile } from 'ts-morph';
 import { Conflict, Patch } from '../types';
 import { ErrorCluster } from './ErrorClusterer';
+import { RuleLoader } from './RuleLoader';
+import { RulePack, getRulePacks } from './rulePacks';
+import { createPatch } from '../patcher';
+import { getAngularAST } from '../initializeWorkspace';
+import { readFileContent, resolveWriteMode } from '../workspaceWriter';
+import { logInfo, logError } from '../logger';
 
 export interface PatternFix {
     id: string;
     name: string;
     description: string;
+    /** Confidence (0-1) given to this fix's patches; defaults to DEFAULT_PATTERN_CONFIDENCE */
+    confidence?: number;
     check: (conflict: Conflict) => boolean;
-    fix: (conflict: Conflict) => Patch | null;
+    /** Builds the patch directly (e.g. from a text replacement) */
+    fix?: (conflict: Conflict) => Patch | null;
+    /**
+     * Edits the SourceFile of the conflict's file in place; the patch is derived
+     * from the text before and after. Return false when there is nothing to change.
+     */
+    codemod?: (sourceFile: SourceFile, conflict: Conflict) => boolean | void;
 }
 
+/** Confidence of patterns that do not declare one: reviewed unless the threshold is lowered */
+export const DEFAULT_PATTERN_CONFIDENCE = 0.7;
+
 export class PatternMatcher {
     private patterns: PatternFix[] = [];
+    private scratchProject: Project | null = null;
+
+    private packs: RulePack[];
+
+    /**
+     * @param rootPath - Angular project root; when given, user rules from
+     *                   `.angular-upgrade/rules` are loaded and take precedence over built-in patterns
+     * @param versions - Current and target Angular versions; only the rule packs of
+     *                   the major steps between them are activated
+     */
+    constructor(rootPath?: string, versions?: { from: string | null; to: string | null }) {
+        if (rootPath) {
+            this.patterns.push(...new RuleLoader(rootPath).loadRules());
+        }
 
-    constructor() {
-        this.initializePatterns();
+        this.packs = getRulePacks(versions?.from ?? null, versions?.to ?? null);
+        for (const pack of this.packs) {
+            // User rules with the same id replace the built-in fix
+            this.patterns.push(...pack.fixes.filter(fix => !this.patterns.some(p => p.id === fix.id)));
+        }
+        logInfo(`Active rule packs: ${this.packs.map(pack => `v${pack.fromMajor}→v${pack.toMajor}`).join(', ') || 'none'}`);
     }
 
-    private initializePatterns() {
-        // Pattern 1: HttpModule -> HttpClientModule
-        this.patterns.push({
-            id: 'http-module-deprecation',
-            name: 'HttpModule Deprecation',
-            description: 'Replaces deprecated HttpModule with HttpClientModule',
-            check: (conflict) => {
-                return (conflict.message.includes('HttpModule') && conflict.message.includes('deprecated')) ||
-                    (conflict.message.includes('HttpModule') && conflict.message.includes('has no exported member'));
-            },
-            fix: (conflict) => {
-                return {
-                    diff: `
-- import { HttpModule } from '@angular/http';
-+ import { HttpClientModule } from '@angular/common/http';
-`,
-                    description: 'Replace HttpModule with HttpClientModule',
-                    filePath: conflict.filePath,
-                    source: 'pattern'
-                };
-            }
-        });
-
-        // Pattern 2: RxJS Operators (switch to pipeable operators)
-        this.patterns.push({
-            id: 'rxjs-operators',
-            name: 'RxJS Operators',
-            description: 'Fixes old RxJS operator imports',
-            check: (conflict) => conflict.message.includes('rxjs') && conflict.message.includes('has no exported member'),
-            fix: (conflict) => {
-                // Heuristic: if it's an import error for a common operator
-                if (conflict.message.includes('map') || conflict.message.includes('switchMap') || conflict.message.includes('tap')) {
-                    return {
-                        diff: `
-- import 'rxjs/add/operator/map';
-+ import { map } from 'rxjs/operators';
-`,
-                        description: 'Update RxJS operator import',
-                        filePath: conflict.filePath,
-                        source: 'pattern'
-                    };
-                }
-                return null;
-            }
-        });
-
-        // Pattern 3: entryComponents removal (Angular 13+ but common legacy)
-        this.patterns.push({
-            id: 'entry-components',
-            name: 'Remove entryComponents',
-            description: 'Removes deprecated entryComponents property',
-            check: (conflict) => conflict.message.includes('entryComponents') && conflict.message.includes('does not exist'),
-            fix: (conflict) => {
-                return {
-                    diff: `
-- entryComponents: [
--   MyComponent
-- ],
-`,
-                    description: 'Remove deprecated entryComponents',
-                    filePath: conflict.filePath,
-                    source: 'pattern'
-                };
-            }
-        });
+    /**
+     * Rule packs activated for this upgrade, in upgrade order.
+     */
+    getActivePacks(): RulePack[] {
+        return this.packs;
     }
 
     /**
@@ -97,16 +74,94 @@ export class PatternMatcher {
     }
 
     /**
-     * Generates patches for all instances in a cluster using the matched pattern.
+     * Instances of a cluster the pattern does not match. Patterns are matched on the
+     * representative, and sharing its key does not guarantee an instance has the same shape.
+     */
+    unmatchedInstances(cluster: ErrorCluster, pattern: PatternFix): Conflict[] {
+        return cluster.instances.filter(instance => !pattern.check(instance));
+    }
+
+    /**
+     * Generates patches for the instances in a cluster that the matched pattern matches;
+     * the others are left alone (see unmatchedInstances).
      */
     generateFixes(cluster: ErrorCluster, pattern: PatternFix): Patch[] {
         const patches: Patch[] = [];
         for (const instance of cluster.instances) {
-            const patch = pattern.fix(instance);
-            if (patch) {
+            if (!pattern.check(instance)) {
+                continue;
+            }
+            const patch = pattern.codemod ? this.runCodemod(pattern, instance) : pattern.fix?.(instance) ?? null;
+            // File-wide fixes produce the same patch for every instance in a file
+            if (patch && !patches.some(p => p.filePath === patch.filePath && p.diff === patch.diff)) {
+                patch.targetConflict = instance;
+                patch.confidence = pattern.confidence ?? DEFAULT_PATTERN_CONFIDENCE;
                 patches.push(patch);
             }
         }
         return patches;
     }
+
+    /**
+     * Runs a pattern's codemod against the conflict's file and turns the change into a patch.
+     * The migration's ts-morph project is used when available, so codemods see real types;
+     * the file is restored afterwards and only changes once the patch is applied.
+     */
+    private runCodemod(pattern: PatternFix, conflict: Conflict): Patch | null {
+        // Codemods edit TypeScript; template conflicts point at .html files
+        if (!fs.existsSync(conflict.filePath) || !/\.tsx?$/.test(conflict.filePath)) {
+            return null;
+        }
+
+        const before = readFileContent(conflict.filePath, resolveWriteMode());
+        const project = getAngularAST()?.getProject(conflict.filePath) ?? this.getScratchProject();
+        const existing = project.getSourceFile(conflict.filePath);
+        const projectText = existing?.getFullText();
+        const sourceFile = existing ?? project.createSourceFile(conflict.filePath, before);
+        const quoteKind = project.manipulationSettings.getQuoteKind();
+
+        let after: string | null = null;
+        try {
+            if (projectText !== undefined && projectText !== before) {
+                sourceFile.replaceWithText(before);
+            }
+
+            // New imports follow the quote style the file already uses
+            const firstImport = sourceFile.getImportDeclarations()[0];
+            project.manipulationSettings.set({
+                quoteKind: firstImport?.getModuleSpecifier().getText().startsWith('"') ? QuoteKind.Double : QuoteKind.Single
+            });
+
+            if (pattern.codemod!(sourceFile, conflict) !== false) {
+                after = sourceFile.getFullText();
+            }
+        } catch (error) {
+            logError(`Codemod "${pattern.id}" failed on ${conflict.filePath}`, error as Error);
+        } finally {
+            project.manipulationSettings.set({ quoteKind });
+            if (projectText === undefined) {
+                project.removeSourceFile(sourceFile);
+            } else {
+                sourceFile.replaceWithText(projectText);
+            }
+        }
+
+        if (after === null || after === before) {
+            return null;
+        }
+
+        const patch = createPatch(conflict.filePath, before, after, pattern.name);
+        patch.source = 'pattern';
+        return patch;
+    }
+
+    /**
+     * In-memory project for codemods when no Angular project has been loaded.
+     */
+    private getScratchProject(): Project {
+        if (!this.scratchProject) {
+            this.scratchProject = new Project({ useInMemoryFileSystem: true });
+        }
+        return this.scratchProject;
+    }
 }
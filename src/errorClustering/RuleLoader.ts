@@ -0,0 +1,393 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as YAML from 'yaml';
+import { SourceFile } from 'ts-morph';
+import { Conflict, Patch } from '../types';
+import { PatternFix } from './PatternMatcher';
+import { removeImport, removeProperty, renameIdentifier, renameImport } from './codemods';
+import { createPatch } from '../patcher';
+import { readFileContent, resolveWriteMode } from '../workspaceWriter';
+import { logInfo, logError } from '../logger';
+
+/**
+ * A declarative fix rule, as written in a rule file.
+ */
+export interface FixRule {
+    id: string;
+    name?: string;
+    description?: string;
+    /** Confidence (0-1) given to the rule's patches */
+    confidence?: number;
+    match: {
+        /** Regular expression tested against the diagnostic message */
+        message?: string;
+        /** TypeScript error code(s) */
+        code?: number | number[];
+        /** Glob relative to the Angular project root */
+        files?: string;
+    };
+    replace?: {
+        find: string;
+        /** Replacement text; `$1`.. refer to `find` groups, `{{message.N}}` to message groups */
+        with: string;
+        scope?: 'line' | 'file';
+        flags?: string;
+    };
+    ast?: AstOperation;
+}
+
+/**
+ * Structural edits a rule can request instead of a text replacement.
+ */
+export type AstOperation =
+    | { operation: 'renameImport'; module: string; name?: string; newName?: string; newModule?: string }
+    | { operation: 'removeImport'; module: string; name?: string }
+    | { operation: 'removeProperty'; property: string }
+    | { operation: 'renameIdentifier'; from: string; to: string };
+
+/** Rule directory, relative to the Angular project root */
+export const RULES_DIRECTORY = path.join('.angular-upgrade', 'rules');
+
+const SCHEMA_PATH = path.join(__dirname, '..', '..', 'schemas', 'fix-rules.schema.json');
+
+export class RuleLoader {
+    private rootPath: string;
+
+    constructor(rootPath: string) {
+        this.rootPath = rootPath;
+    }
+
+    /**
+     * Loads every rule file in `.angular-upgrade/rules` (JSON or YAML) and turns the
+     * valid rules into pattern fixes. Files that fail to parse or do not match the
+     * schema are skipped, with the reasons reported in the Output channel.
+     */
+    loadRules(): PatternFix[] {
+        const directory = path.join(this.rootPath, RULES_DIRECTORY);
+        if (!fs.existsSync(directory)) {
+            return [];
+        }
+
+        const schema = loadSchema();
+        if (!schema) {
+            return [];
+        }
+
+        const fixes: PatternFix[] = [];
+        const fileNames = fs.readdirSync(directory).filter(name => /\.(json|ya?ml)$/i.test(name)).sort();
+
+        for (const fileName of fileNames) {
+            let document: unknown;
+            try {
+                const text = fs.readFileSync(path.join(directory, fileName), 'utf-8');
+                document = /\.json$/i.test(fileName) ? JSON.parse(text) : YAML.parse(text);
+            } catch (error: any) {
+                logError(`Rule file ${fileName} could not be parsed: ${error.message}`);
+                continue;
+            }
+
+            const problems = validateSchema(document, schema, schema, '');
+            if (problems.length > 0) {
+                logError(`Rule file ${fileName} does not match the rule schema - skipped:`);
+                problems.forEach(problem => logError(`  ${problem}`));
+                continue;
+            }
+
+            const rules: FixRule[] = Array.isArray(document) ? document : (document as { rules: FixRule[] }).rules;
+            for (const rule of rules) {
+                if (fixes.some(fix => fix.id === rule.id)) {
+                    logError(`Rule file ${fileName}: duplicate rule id "${rule.id}" - skipped`);
+                    continue;
+                }
+
+                try {
+                    fixes.push(this.toPatternFix(rule));
+                } catch (error: any) {
+                    logError(`Rule file ${fileName}: rule "${rule.id}" - ${error.message}`);
+                }
+            }
+        }
+
+        logInfo(`Loaded ${fixes.length} fix rule(s) from ${fileNames.length} file(s) in ${RULES_DIRECTORY}`);
+        return fixes;
+    }
+
+    /**
+     * Validates and compiles one rule that does not come from a rule file, such as a
+     * rule suggested by the LLM. Returns null, with the reasons logged, when it is invalid.
+     *
+     * @param rule - Rule object in the rule file format
+     * @param source - Where the rule came from, for log messages
+     */
+    compileRule(rule: unknown, source: string): PatternFix | null {
+        const schema = loadSchema();
+        if (!schema) {
+            return null;
+        }
+
+        const problems = validateSchema(rule, schema.definitions.rule, schema, '');
+        if (problems.length > 0) {
+            logError(`Rule from ${source} does not match the rule schema - skipped:`);
+            problems.forEach(problem => logError(`  ${problem}`));
+            return null;
+        }
+
+        try {
+            return this.toPatternFix(rule as FixRule);
+        } catch (error: any) {
+            logError(`Rule from ${source}: rule "${(rule as FixRule).id}" - ${error.message}`);
+            return null;
+        }
+    }
+
+    /**
+     * Compiles a rule into a pattern fix. Regular expressions are compiled up front,
+     * so a broken expression rejects the rule at load time rather than during a run.
+     */
+    private toPatternFix(rule: FixRule): PatternFix {
+        const messagePattern = rule.match.message !== undefined ? new RegExp(rule.match.message) : null;
+        const codes = rule.match.code === undefined ? null : ([] as number[]).concat(rule.match.code);
+        const filePattern = rule.match.files !== undefined ? globToRegExp(rule.match.files) : null;
+        const findPattern = rule.replace ? new RegExp(rule.replace.find, rule.replace.flags ?? 'g') : null;
+
+        const fix: PatternFix = {
+            id: rule.id,
+            name: rule.name ?? rule.id,
+            description: rule.description ?? `User rule from ${RULES_DIRECTORY}`,
+            confidence: rule.confidence,
+            check: (conflict) => {
+                if (messagePattern && !messagePattern.test(conflict.message)) return false;
+                if (codes && (conflict.code === undefined || !codes.includes(conflict.code))) return false;
+                if (filePattern && !filePattern.test(this.toRelativePath(conflict.filePath))) return false;
+                return true;
+            }
+        };
+
+        if (rule.ast) {
+            fix.codemod = (sourceFile, conflict) => applyAstOperation(sourceFile, conflict, rule.ast!);
+            return fix;
+        }
+
+        fix.fix = (conflict) => {
+            if (!fs.existsSync(conflict.filePath)) {
+                return null;
+            }
+
+            const original = readFileContent(conflict.filePath, resolveWriteMode());
+            const updated = applyReplacement(original, conflict, rule, findPattern!, messagePattern);
+            if (updated === original) {
+                return null;
+            }
+
+            const patch: Patch = createPatch(conflict.filePath, original, updated, fix.name);
+            patch.source = 'pattern';
+            return patch;
+        };
+        return fix;
+    }
+
+    /**
+     * Converts an absolute path into the forward-slash form rule globs are written in.
+     */
+    private toRelativePath(filePath: string): string {
+        return path.relative(this.rootPath, filePath).split(path.sep).join('/');
+    }
+}
+
+/**
+ * Reads the rule schema shipped with the extension; null when it cannot be read.
+ */
+function loadSchema(): any | null {
+    try {
+        return JSON.parse(fs.readFileSync(SCHEMA_PATH, 'utf-8'));
+    } catch (error) {
+        logError(`Fix rule schema could not be loaded from ${SCHEMA_PATH}`, error as Error);
+        return null;
+    }
+}
+
+/**
+ * Runs a rule's AST operation through the shared codemods.
+ */
+function applyAstOperation(sourceFile: SourceFile, conflict: Conflict, operation: AstOperation): boolean {
+    switch (operation.operation) {
+        case 'renameImport':
+            return renameImport(sourceFile, operation);
+        case 'removeImport':
+            return removeImport(sourceFile, operation);
+        case 'removeProperty':
+            return removeProperty(sourceFile, operation.property, conflict.lineNumber);
+        case 'renameIdentifier':
+            return renameIdentifier(sourceFile, operation.from, operation.to);
+    }
+}
+
+/**
+ * Applies a text replacement rule to the diagnostic's line or the whole file.
+ */
+function applyReplacement(
+    content: string,
+    conflict: Conflict,
+    rule: FixRule,
+    findPattern: RegExp,
+    messagePattern: RegExp | null
+): string {
+    const messageMatch = messagePattern ? conflict.message.match(messagePattern) : null;
+    // Message text is inserted literally, so "$" must not be read as a group reference
+    const replacement = rule.replace!.with.replace(/\{\{message\.(\d+)\}\}/g, (_, group) =>
+        (messageMatch?.[Number(group)] ?? '').replace(/\$/g, '$$$$'));
+
+    if (rule.replace!.scope === 'file') {
+        return content.replace(findPattern, replacement);
+    }
+
+    const lines = content.split('\n');
+    const index = conflict.lineNumber - 1;
+    if (index < 0 || index >= lines.length) {
+        return content;
+    }
+
+    lines[index] = lines[index].replace(findPattern, replacement);
+    return lines.join('\n');
+}
+
+/**
+ * Converts a file glob (`*`, `**`, `?`, `{a,b}`) into an anchored regular expression.
+ */
+function globToRegExp(glob: string): RegExp {
+    const escape = (text: string) => text.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    let source = '';
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+
+        if (char === '*' && glob[i + 1] === '*') {
+            // "**/" spans any number of directories, including none
+            source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+            i += glob[i + 2] === '/' ? 2 : 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{' && glob.indexOf('}', i) > i) {
+            const end = glob.indexOf('}', i);
+            source += `(?:${glob.slice(i + 1, end).split(',').map(escape).join('|')})`;
+            i = end;
+        } else {
+            source += escape(char);
+        }
+    }
+
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Validates a value against the subset of JSON Schema used by the rule schema
+ * (type, required, properties, additionalProperties, items, enum, const, pattern,
+ * minItems, minProperties, oneOf and local $ref).
+ *
+ * @returns Human-readable problems, each prefixed with the JSON path
+ */
+function validateSchema(value: any, schema: any, root: any, location: string): string[] {
+    const at = location || '(root)';
+
+    if (schema.$ref) {
+        const target = schema.$ref.replace(/^#\//, '').split('/').reduce((node: any, key: string) => node?.[key], root);
+        return validateSchema(value, target, root, location);
+    }
+
+    const problems: string[] = [];
+
+    if (schema.oneOf) {
+        const results: string[][] = schema.oneOf.map((option: any) => validateSchema(value, option, root, location));
+        const matches = results.filter(result => result.length === 0).length;
+        // oneOf over bare "required" lists means "exactly one of these properties"
+        const exclusive = schema.oneOf.every((option: any) => Object.keys(option).join() === 'required');
+
+        if (exclusive && matches !== 1) {
+            const names = schema.oneOf.map((option: any) => `"${option.required.join('", "')}"`).join(' or ');
+            problems.push(`${at}: must have exactly one of ${names}`);
+        } else if (matches === 0) {
+            // Report the alternative the author most likely meant: one whose type and
+            // constant properties (e.g. "operation") fit, with the fewest problems
+            const fitting = results.filter((_, i) => fitsShape(value, schema.oneOf[i]));
+            const candidates = fitting.length > 0 ? fitting : results;
+            return candidates.reduce((best, result) => result.length < best.length ? result : best);
+        } else if (matches > 1) {
+            problems.push(`${at}: matches more than one allowed form`);
+        }
+    }
+
+    if (schema.const !== undefined && value !== schema.const) {
+        return [`${at}: must be ${JSON.stringify(schema.const)}`];
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+        return [`${at}: must be one of ${schema.enum.map((v: any) => JSON.stringify(v)).join(', ')}`];
+    }
+
+    if (schema.type) {
+        const actual = Array.isArray(value) ? 'array'
+            : value === null ? 'null'
+            : Number.isInteger(value) ? 'integer'
+            : typeof value;
+        const expected = schema.type === 'number' && actual === 'integer' ? 'integer' : schema.type;
+        if (actual !== expected) {
+            return [`${at}: expected ${schema.type}, found ${actual}`];
+        }
+    }
+
+    if (typeof value === 'string' && schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        problems.push(`${at}: "${value}" does not match ${schema.pattern}`);
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            problems.push(`${at}: must be at least ${schema.minimum}`);
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            problems.push(`${at}: must be at most ${schema.maximum}`);
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            problems.push(`${at}: needs at least ${schema.minItems} item(s)`);
+        }
+        if (schema.items) {
+            value.forEach((item, i) => problems.push(...validateSchema(item, schema.items, root, `${location}[${i}]`)));
+        }
+    } else if (value !== null && typeof value === 'object') {
+        const keys = Object.keys(value);
+        const child = (key: string) => location ? `${location}.${key}` : key;
+
+        if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+            problems.push(`${at}: needs at least ${schema.minProperties} propert${schema.minProperties === 1 ? 'y' : 'ies'}`);
+        }
+        for (const key of schema.required || []) {
+            if (!(key in value)) {
+                problems.push(`${at}: missing required property "${key}"`);
+            }
+        }
+        for (const key of keys) {
+            if (schema.properties?.[key]) {
+                problems.push(...validateSchema(value[key], schema.properties[key], root, child(key)));
+            } else if (schema.additionalProperties === false) {
+                problems.push(`${at}: unknown property "${key}"`);
+            }
+        }
+    }
+
+    return problems;
+}
+
+/**
+ * Checks whether a value has the basic shape of a schema alternative:
+ * the same JSON type and matching constant properties.
+ */
+function fitsShape(value: any, schema: any): boolean {
+    if (schema.type === 'array' && !Array.isArray(value)) return false;
+    if (schema.type === 'object' && (value === null || typeof value !== 'object' || Array.isArray(value))) return false;
+
+    return Object.entries(schema.properties || {}).every(([key, property]: [string, any]) =>
+        property.const === undefined || value?.[key] === property.const);
+}
@@ -0,0 +1,248 @@
+// causalGraph.ts
+// Links follow-on errors to the unresolved import or missing export they stem from.
+// A removed export is reported at every import of it, and every use of the broken
+// binding fails too: in the importing file, and in files that get it through a barrel.
+// Fixing the import resolves all of them, so those errors are grouped under it.
+
+import * as path from 'path';
+import { ExportDeclaration, ExportSpecifier, ImportDeclaration, ImportSpecifier, Node, Project, SourceFile, SyntaxKind } from 'ts-morph';
+import { Conflict } from '../types';
+
+/** Diagnostics raised at an import whose module or member cannot be resolved */
+const ROOT_CAUSE_CODES = new Set([
+    2305, // Module has no exported member
+    2307, // Cannot find module
+    2614, // Module has no exported member; did you mean a default import?
+    2724, // Module has no exported member; did you mean another name?
+    2792  // Cannot find module; did you mean to set the moduleResolution option?
+]);
+
+/** How many barrels a broken binding is followed through */
+const MAX_REEXPORT_DEPTH = 5;
+
+/**
+ * One unresolved import or missing export and the errors that follow from it.
+ */
+export interface RootCause {
+    /** The module, plus the member name for a missing export */
+    key: string;
+    /** Readable form, e.g. `'HttpModule' from '@angular/http'` */
+    symbol: string;
+    /** The import errors themselves, one per importing file */
+    conflicts: Conflict[];
+    /** Errors expected to disappear once the root cause is fixed */
+    effects: Conflict[];
+}
+
+export interface CausalGraph {
+    /** Root causes, the one with the most errors first */
+    rootCauses: RootCause[];
+    /** Errors not caused by any root cause */
+    independent: Conflict[];
+}
+
+interface BrokenImport {
+    key: string;
+    symbol: string;
+    declaration: ImportDeclaration | ExportDeclaration;
+    /** Names this import binds (or re-exports) in its own file */
+    localNames: string[];
+    /** Names it asks the module for */
+    importedNames: string[];
+}
+
+/**
+ * Builds the causal graph of a set of errors using the project's type information.
+ * Errors without a span, or in files outside the project, are independent.
+ *
+ * @param conflicts - Errors from one diagnostics run
+ * @param project - The ts-morph project the errors were collected from
+ */
+export function buildCausalGraph(conflicts: Conflict[], project: Project): CausalGraph {
+    const causes = new Map<string, RootCause>();
+    const broken = new Map<Conflict, BrokenImport>();
+    // `file#localName` of every broken binding → key of its root cause
+    const bindings = new Map<string, string>();
+
+    for (const conflict of conflicts) {
+        const sourceFile = project.getSourceFile(conflict.filePath);
+        const brokenImport = sourceFile ? describeBrokenImport(conflict, sourceFile) : null;
+        if (!brokenImport) continue;
+
+        broken.set(conflict, brokenImport);
+        for (const name of brokenImport.localNames) {
+            bindings.set(bindingKey(sourceFile!, name), brokenImport.key);
+        }
+    }
+
+    // An import error in a file that imports from another broken file follows from that file's
+    // root cause. Repeat until stable, so chains of barrels resolve to the first broken import.
+    const causeOf = new Map<Conflict, string>();
+    let changed = true;
+    for (let pass = 0; changed && pass <= broken.size; pass++) {
+        changed = false;
+        for (const [conflict, brokenImport] of broken) {
+            const target = brokenImport.declaration.getModuleSpecifierSourceFile();
+            const cause = target && brokenImport.importedNames
+                .map(name => findBindingCause(target, name, bindings))
+                .find(key => key !== undefined && key !== brokenImport.key);
+
+            if (cause && causeOf.get(conflict) !== cause) {
+                causeOf.set(conflict, cause);
+                for (const name of brokenImport.localNames) {
+                    bindings.set(bindingKey(brokenImport.declaration.getSourceFile(), name), cause);
+                }
+                changed = true;
+            }
+        }
+    }
+
+    for (const [conflict, brokenImport] of broken) {
+        if (causeOf.has(conflict)) continue;
+
+        if (!causes.has(brokenImport.key)) {
+            causes.set(brokenImport.key, { key: brokenImport.key, symbol: brokenImport.symbol, conflicts: [], effects: [] });
+        }
+        causes.get(brokenImport.key)!.conflicts.push(conflict);
+    }
+
+    const independent: Conflict[] = [];
+    for (const conflict of conflicts) {
+        if (broken.has(conflict) && !causeOf.has(conflict)) continue;
+
+        const sourceFile = project.getSourceFile(conflict.filePath);
+        const key = causeOf.get(conflict) ?? (sourceFile ? findSpanCause(conflict, sourceFile, bindings) : undefined);
+        const cause = key !== undefined ? causes.get(key) : undefined;
+
+        if (cause) {
+            cause.effects.push(conflict);
+        } else {
+            independent.push(conflict);
+        }
+    }
+
+    const rootCauses = Array.from(causes.values()).sort((a, b) =>
+        (b.conflicts.length + b.effects.length) - (a.conflicts.length + a.effects.length));
+
+    return { rootCauses, independent };
+}
+
+/**
+ * Describes the import or re-export a diagnostic is raised at, when the diagnostic
+ * says its module or one of its members cannot be resolved.
+ */
+function describeBrokenImport(conflict: Conflict, sourceFile: SourceFile): BrokenImport | null {
+    if (conflict.code === undefined || !ROOT_CAUSE_CODES.has(conflict.code) || conflict.start === undefined) {
+        return null;
+    }
+
+    const token = sourceFile.getDescendantAtPos(conflict.start);
+    const declaration = token?.getFirstAncestor((node): node is ImportDeclaration | ExportDeclaration =>
+        Node.isImportDeclaration(node) || Node.isExportDeclaration(node));
+    const module = declaration?.getModuleSpecifierValue();
+    if (!declaration || !module) {
+        return null;
+    }
+
+    // Relative specifiers are spelled differently in every file; key them by the path they point at
+    const moduleKey = module.startsWith('.') ? path.resolve(path.dirname(sourceFile.getFilePath()), module) : module;
+
+    const specifier = token!.getFirstAncestor((node): node is ImportSpecifier | ExportSpecifier =>
+        Node.isImportSpecifier(node) || Node.isExportSpecifier(node));
+    if (specifier && conflict.code !== 2307 && conflict.code !== 2792) {
+        return {
+            key: `${moduleKey}#${specifier.getName()}`,
+            symbol: `'${specifier.getName()}' from '${module}'`,
+            declaration,
+            localNames: [specifier.getAliasNode()?.getText() ?? specifier.getName()],
+            importedNames: [specifier.getName()]
+        };
+    }
+
+    // The whole module is missing: every binding of the declaration is broken
+    const specifiers = Node.isImportDeclaration(declaration) ? declaration.getNamedImports() : declaration.getNamedExports();
+    const localNames = specifiers.map(s => s.getAliasNode()?.getText() ?? s.getName());
+    if (Node.isImportDeclaration(declaration)) {
+        const defaultImport = declaration.getDefaultImport();
+        const namespaceImport = declaration.getNamespaceImport();
+        if (defaultImport) localNames.push(defaultImport.getText());
+        if (namespaceImport) localNames.push(namespaceImport.getText());
+    }
+
+    return {
+        key: moduleKey,
+        symbol: `'${module}'`,
+        declaration,
+        localNames,
+        importedNames: specifiers.map(s => s.getName())
+    };
+}
+
+/**
+ * Finds the root cause of an error from the identifiers in its span: an identifier
+ * bound by a broken import, directly or through imports and re-exports of other files.
+ */
+function findSpanCause(conflict: Conflict, sourceFile: SourceFile, bindings: Map<string, string>): string | undefined {
+    if (conflict.start === undefined) {
+        return undefined;
+    }
+
+    const token = sourceFile.getDescendantAtPos(conflict.start);
+    if (!token) {
+        return undefined;
+    }
+
+    // Same widening as the span context of the diagnostic: from the token's parent to the whole span
+    const end = conflict.end ?? conflict.start;
+    let node: Node = token.getParent() ?? token;
+    while (node.getEnd() < end && node.getParent()) {
+        node = node.getParent()!;
+    }
+
+    const identifiers = Node.isIdentifier(node) ? [node] : node.getDescendantsOfKind(SyntaxKind.Identifier);
+    for (const identifier of identifiers) {
+        // Only names bound by an import; a local variable may shadow the broken binding
+        const importBinding = identifier.getSymbol()?.getDeclarations().some(d =>
+            (Node.isImportSpecifier(d) || Node.isImportClause(d) || Node.isNamespaceImport(d)) &&
+            d.getSourceFile() === sourceFile);
+        const cause = importBinding ? findBindingCause(sourceFile, identifier.getText(), bindings) : undefined;
+        if (cause) {
+            return cause;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Returns the root cause of a name in a file: a broken binding of that name in the file,
+ * or one in the project file the name is imported or re-exported from.
+ */
+function findBindingCause(sourceFile: SourceFile, name: string, bindings: Map<string, string>, depth = 0): string | undefined {
+    const direct = bindings.get(bindingKey(sourceFile, name));
+    if (direct !== undefined || depth >= MAX_REEXPORT_DEPTH) {
+        return direct;
+    }
+
+    const specifiers = [
+        ...sourceFile.getImportDeclarations().flatMap(d => d.getNamedImports()),
+        ...sourceFile.getExportDeclarations().flatMap(d => d.getNamedExports())
+    ];
+    for (const specifier of specifiers) {
+        if ((specifier.getAliasNode()?.getText() ?? specifier.getName()) !== name) continue;
+
+        const declaration = specifier.getFirstAncestor((node): node is ImportDeclaration | ExportDeclaration =>
+            Node.isImportDeclaration(node) || Node.isExportDeclaration(node));
+        const target = declaration?.getModuleSpecifierSourceFile();
+        const cause = target ? findBindingCause(target, specifier.getName(), bindings, depth + 1) : undefined;
+        if (cause) {
+            return cause;
+        }
+    }
+
+    return undefined;
+}
+
+function bindingKey(sourceFile: SourceFile, name: string): string {
+    return `${sourceFile.getFilePath()}#${name}`;
+}
@@ -0,0 +1,201 @@
+// codemods.ts
+// Reusable ts-morph edits for pattern fixes and declarative rules.
+// Each codemod edits the given SourceFile in place and returns whether anything changed.
+
+import { Node, SourceFile, SyntaxKind } from 'ts-morph';
+
+const RXJS_OPERATORS = new Set([
+    'audit', 'auditTime', 'buffer', 'bufferTime', 'catchError', 'combineLatestWith', 'concatMap', 'debounce',
+    'debounceTime', 'defaultIfEmpty', 'delay', 'distinct', 'distinctUntilChanged', 'exhaustMap', 'filter',
+    'finalize', 'first', 'last', 'map', 'mapTo', 'mergeMap', 'pairwise', 'pluck', 'reduce', 'retry', 'retryWhen',
+    'sampleTime', 'scan', 'share', 'shareReplay', 'skip', 'skipUntil', 'startWith', 'switchMap', 'take',
+    'takeUntil', 'takeWhile', 'tap', 'throttleTime', 'timeout', 'toArray', 'withLatestFrom'
+]);
+
+/**
+ * Renames a named import, moves it to another module, or both.
+ * Without `name`, every import from `module` is pointed at `newModule`.
+ * Renaming an import that has no alias also renames its uses in this file.
+ */
+export function renameImport(
+    sourceFile: SourceFile,
+    options: { module: string; name?: string; newName?: string; newModule?: string }
+): boolean {
+    let changed = false;
+
+    for (const declaration of sourceFile.getImportDeclarations()) {
+        if (declaration.getModuleSpecifierValue() !== options.module) continue;
+
+        if (!options.name) {
+            if (options.newModule) {
+                declaration.setModuleSpecifier(options.newModule);
+                changed = true;
+            }
+            continue;
+        }
+
+        const specifier = declaration.getNamedImports().find(s => s.getName() === options.name);
+        if (!specifier) continue;
+
+        if (options.newName && !specifier.getAliasNode()) {
+            // Only references inside this file: the language service would also rename other modules.
+            // For an unresolved import it may also report the enclosing import list, hence the text check.
+            const references = specifier.getNameNode().findReferencesAsNodes()
+                .filter(node => node.getSourceFile() === sourceFile && node !== specifier.getNameNode() &&
+                    Node.isIdentifier(node) && node.getText() === options.name);
+            specifier.setName(options.newName);
+            references.reverse().forEach(node => node.replaceWithText(options.newName!));
+            changed = true;
+        } else if (options.newName) {
+            specifier.setName(options.newName);
+            changed = true;
+        }
+
+        if (options.newModule) {
+            const onlyImport = declaration.getNamedImports().length === 1 &&
+                !declaration.getDefaultImport() && !declaration.getNamespaceImport();
+
+            if (onlyImport) {
+                declaration.setModuleSpecifier(options.newModule);
+            } else {
+                const moved = specifier.getText();
+                specifier.remove();
+                addNamedImports(sourceFile, options.newModule, [moved]);
+            }
+            changed = true;
+        }
+    }
+
+    return changed;
+}
+
+/**
+ * Removes a named import from `module`, or the whole import when `name` is omitted.
+ * A declaration left without any imported binding is removed as well.
+ */
+export function removeImport(sourceFile: SourceFile, options: { module: string; name?: string }): boolean {
+    let changed = false;
+
+    for (const declaration of sourceFile.getImportDeclarations()) {
+        if (declaration.getModuleSpecifierValue() !== options.module) continue;
+
+        const specifier = options.name
+            ? declaration.getNamedImports().find(s => s.getName() === options.name)
+            : undefined;
+        const keepsOtherImports = declaration.getNamedImports().length > 1 ||
+            declaration.getDefaultImport() !== undefined || declaration.getNamespaceImport() !== undefined;
+
+        if (specifier && keepsOtherImports) {
+            specifier.remove();
+            changed = true;
+        } else if (specifier || !options.name) {
+            declaration.remove();
+            changed = true;
+        }
+    }
+
+    return changed;
+}
+
+/**
+ * Removes object-literal properties named `property`.
+ * With a line number, only properties spanning that line are removed when there are
+ * any (the one the diagnostic points at); otherwise every match in the file is removed.
+ */
+export function removeProperty(sourceFile: SourceFile, property: string, lineNumber?: number): boolean {
+    const candidates = sourceFile.getDescendantsOfKind(SyntaxKind.PropertyAssignment)
+        .filter(assignment => assignment.getName() === property);
+    const atLine = lineNumber === undefined ? [] : candidates.filter(assignment =>
+        assignment.getStartLineNumber() <= lineNumber && lineNumber <= assignment.getEndLineNumber());
+    const targets = atLine.length > 0 ? atLine : candidates;
+
+    // Nested matches go first, so no removed node is touched again through its parent
+    targets.reverse().forEach(assignment => assignment.remove());
+    return targets.length > 0;
+}
+
+/**
+ * Renames every identifier spelled `from` to `to`, regardless of binding.
+ */
+export function renameIdentifier(sourceFile: SourceFile, from: string, to: string): boolean {
+    const identifiers = sourceFile.getDescendantsOfKind(SyntaxKind.Identifier)
+        .filter(identifier => identifier.getText() === from);
+
+    if (identifiers.length === 0) {
+        return false;
+    }
+
+    // Splice from the end so earlier positions stay valid
+    let text = sourceFile.getFullText();
+    for (const identifier of identifiers.reverse()) {
+        text = text.slice(0, identifier.getStart()) + to + text.slice(identifier.getEnd());
+    }
+    sourceFile.replaceWithText(text);
+    return true;
+}
+
+/**
+ * Converts RxJS 5 operator imports to `rxjs/operators`:
+ * patch-style `rxjs/add/operator/x` imports and operators imported from `rxjs`.
+ * Call sites still need `.pipe()`; only the imports are rewritten.
+ */
+export function moveRxjsOperatorImports(sourceFile: SourceFile): boolean {
+    const operators: string[] = [];
+
+    for (const declaration of sourceFile.getImportDeclarations()) {
+        const moduleName = declaration.getModuleSpecifierValue();
+        const patchImport = moduleName.match(/^rxjs\/add\/operator\/(\w+)$/);
+
+        if (patchImport) {
+            operators.push(patchImport[1]);
+            declaration.remove();
+        } else if (moduleName === 'rxjs') {
+            for (const specifier of declaration.getNamedImports()) {
+                if (RXJS_OPERATORS.has(specifier.getName())) {
+                    operators.push(specifier.getText());
+                    specifier.remove();
+                }
+            }
+            if (declaration.getNamedImports().length === 0 && !declaration.getDefaultImport() && !declaration.getNamespaceImport()) {
+                declaration.remove();
+            }
+        }
+    }
+
+    if (operators.length === 0) {
+        return false;
+    }
+
+    addNamedImports(sourceFile, 'rxjs/operators', operators);
+    return true;
+}
+
+/**
+ * Adds named imports to an existing import of `module`, or a new import after the last one.
+ */
+function addNamedImports(sourceFile: SourceFile, module: string, names: string[]): void {
+    const existing = sourceFile.getImportDeclarations().find(d =>
+        d.getModuleSpecifierValue() === module && !d.getNamespaceImport());
+
+    if (existing) {
+        const present = new Set(existing.getNamedImports().map(s => s.getText()));
+        existing.addNamedImports(names.filter(name => !present.has(name)));
+        return;
+    }
+
+    sourceFile.insertImportDeclaration(sourceFile.getImportDeclarations().length, {
+        moduleSpecifier: module,
+        namedImports: Array.from(new Set(names))
+    });
+}
+
+/**
+ * Renames `object.from` member accesses (e.g. enum members) to `object.to`.
+ */
+export function renameMember(sourceFile: SourceFile, object: string, from: string, to: string): boolean {
+    const accesses = sourceFile.getDescendantsOfKind(SyntaxKind.PropertyAccessExpression)
+        .filter(access => access.getName() === from && access.getExpression().getText() === object);
+
+    accesses.reverse().forEach(access => access.getNameNode().replaceWithText(to));
+    return accesses.length > 0;
+}
@@ -0,0 +1,285 @@
+// rulePacks.ts
+// Fixes and breaking-change notes grouped by the Angular major upgrade they belong to.
+// Only the packs between the project's current version and the upgrade target are activated.
+
+import { PatternFix } from './PatternMatcher';
+import { moveRxjsOperatorImports, removeProperty, renameImport, renameMember } from './codemods';
+
+/**
+ * Everything known about one major-version step, e.g. v15 → v16.
+ */
+export interface RulePack {
+    /** Major version the step starts from */
+    fromMajor: number;
+    /** Major version the step upgrades to */
+    toMajor: number;
+    /** Human-readable breaking changes of this step */
+    breakingChanges: string[];
+    /** Where the breaking changes and fixes are documented */
+    sources: string[];
+    /** Pattern fixes for errors this step introduces */
+    fixes: PatternFix[];
+}
+
+/**
+ * Official update guide and changelog for a step.
+ */
+function officialSources(fromMajor: number, toMajor: number): string[] {
+    return [
+        `https://angular.dev/update-guide?v=${fromMajor}.0-${toMajor}.0&l=3`,
+        'https://github.com/angular/angular/blob/main/CHANGELOG.md'
+    ];
+}
+
+const isMissingExport = (message: string, name: string) =>
+    message.includes(`'${name}'`) && message.includes('has no exported member');
+
+export const RULE_PACKS: RulePack[] = [
+    {
+        fromMajor: 8,
+        toMajor: 9,
+        breakingChanges: [
+            'Ivy becomes the default compiler and renderer',
+            'entryComponents is no longer needed and is deprecated',
+            'TestBed.get is deprecated in favor of the type-safe TestBed.inject',
+            '@angular/http is no longer shipped; use HttpClient from @angular/common/http',
+            'rxjs-compat is no longer supported; operators must be imported from rxjs/operators'
+        ],
+        sources: officialSources(8, 9),
+        fixes: [
+            {
+                id: 'http-module-deprecation',
+                name: 'HttpModule Deprecation',
+                description: 'Replaces deprecated HttpModule with HttpClientModule',
+                confidence: 0.8,
+                check: (conflict) => {
+                    return (conflict.message.includes('HttpModule') && conflict.message.includes('deprecated')) ||
+                        (conflict.message.includes('HttpModule') && conflict.message.includes('has no exported member'));
+                },
+                codemod: (sourceFile) => renameImport(sourceFile, {
+                    module: '@angular/http',
+                    name: 'HttpModule',
+                    newName: 'HttpClientModule',
+                    newModule: '@angular/common/http'
+                })
+            },
+            {
+                id: 'rxjs-operators',
+                name: 'RxJS Operators',
+                description: 'Fixes old RxJS operator imports',
+                confidence: 0.8,
+                check: (conflict) => conflict.message.includes('rxjs') && conflict.message.includes('has no exported member'),
+                codemod: (sourceFile) => moveRxjsOperatorImports(sourceFile)
+            }
+        ]
+    },
+    {
+        fromMajor: 9,
+        toMajor: 10,
+        breakingChanges: [
+            'ModuleWithProviders requires a generic type argument',
+            'Undecorated base classes using Angular features need a @Directive() decorator',
+            'TypeScript 3.9 and tslib 2.0 are required'
+        ],
+        sources: officialSources(9, 10),
+        fixes: []
+    },
+    {
+        fromMajor: 10,
+        toMajor: 11,
+        breakingChanges: [
+            'ViewEncapsulation.Native is removed; use ViewEncapsulation.ShadowDom',
+            'Support for IE 9, IE 10 and IE mobile is removed',
+            'TypeScript 4.0 is required'
+        ],
+        sources: officialSources(10, 11),
+        fixes: [
+            {
+                id: 'view-encapsulation-native',
+                name: 'ViewEncapsulation.Native Removal',
+                description: 'Replaces ViewEncapsulation.Native with ViewEncapsulation.ShadowDom',
+                confidence: 0.9,
+                check: (conflict) => conflict.message.includes(`'Native'`) && conflict.message.includes('ViewEncapsulation'),
+                codemod: (sourceFile) => renameMember(sourceFile, 'ViewEncapsulation', 'Native', 'ShadowDom')
+            }
+        ]
+    },
+    {
+        fromMajor: 11,
+        toMajor: 12,
+        breakingChanges: [
+            'View Engine is deprecated',
+            'IE 11 support is deprecated',
+            'QueryList.changes only emits when the query results actually change',
+            'TypeScript 4.2 is required'
+        ],
+        sources: officialSources(11, 12),
+        fixes: []
+    },
+    {
+        fromMajor: 12,
+        toMajor: 13,
+        breakingChanges: [
+            'View Engine is removed; libraries must be compiled with partial Ivy',
+            'IE 11 support is removed',
+            'ComponentFactoryResolver is no longer needed to create components dynamically',
+            'RxJS 7 is supported and TypeScript 4.4 is required'
+        ],
+        sources: officialSources(12, 13),
+        fixes: []
+    },
+    {
+        fromMajor: 13,
+        toMajor: 14,
+        breakingChanges: [
+            'Reactive forms are strictly typed; existing forms migrate to the Untyped* classes',
+            'TypeScript 4.6 is required and Node 12 is no longer supported'
+        ],
+        sources: officialSources(13, 14),
+        fixes: []
+    },
+    {
+        fromMajor: 14,
+        toMajor: 15,
+        breakingChanges: [
+            'The relativeLinkResolution router option is removed',
+            'DATE_PIPE_DEFAULT_TIMEZONE is deprecated in favor of DATE_PIPE_DEFAULT_OPTIONS',
+            'TypeScript 4.8 is required'
+        ],
+        sources: officialSources(14, 15),
+        fixes: [
+            {
+                id: 'relative-link-resolution',
+                name: 'Remove relativeLinkResolution',
+                description: 'Removes the relativeLinkResolution router option',
+                confidence: 0.95,
+                check: (conflict) => conflict.message.includes('relativeLinkResolution') && conflict.message.includes('does not exist'),
+                codemod: (sourceFile, conflict) => removeProperty(sourceFile, 'relativeLinkResolution', conflict.lineNumber)
+            }
+        ]
+    },
+    {
+        fromMajor: 15,
+        toMajor: 16,
+        breakingChanges: [
+            'entryComponents and ANALYZE_FOR_ENTRY_COMPONENTS are removed',
+            'ngcc is removed; View Engine libraries can no longer be used',
+            'TypeScript 4.9 and Node 16.14 are required'
+        ],
+        sources: officialSources(15, 16),
+        fixes: [
+            {
+                id: 'entry-components',
+                name: 'Remove entryComponents',
+                description: 'Removes deprecated entryComponents property',
+                confidence: 0.95,
+                check: (conflict) => conflict.message.includes('entryComponents') && conflict.message.includes('does not exist'),
+                codemod: (sourceFile, conflict) => removeProperty(sourceFile, 'entryComponents', conflict.lineNumber)
+            }
+        ]
+    },
+    {
+        fromMajor: 16,
+        toMajor: 17,
+        breakingChanges: [
+            'Built-in control flow (@if, @for, @switch) is introduced',
+            'Node 18.13 and TypeScript 5.2 are required',
+            'zone.js 0.14 is required'
+        ],
+        sources: officialSources(16, 17),
+        fixes: []
+    },
+    {
+        fromMajor: 17,
+        toMajor: 18,
+        breakingChanges: [
+            'Control flow syntax (@if, @for)',
+            'Deferrable views',
+            'Built-in hydration'
+        ],
+        sources: officialSources(17, 18),
+        fixes: []
+    },
+    {
+        fromMajor: 18,
+        toMajor: 19,
+        breakingChanges: [
+            'Standalone components are now the default',
+            'NgModules are deprecated',
+            'Dependency injection changes',
+            'Router configuration updates'
+        ],
+        sources: officialSources(18, 19),
+        fixes: []
+    },
+    {
+        fromMajor: 19,
+        toMajor: 20,
+        breakingChanges: [
+            'provideExperimentalZonelessChangeDetection is renamed to provideZonelessChangeDetection',
+            'afterRender is renamed to afterEveryRender',
+            '*ngIf, *ngFor and *ngSwitch are deprecated in favor of built-in control flow',
+            'TypeScript 5.8 and Node 20.11.1 are required'
+        ],
+        sources: officialSources(19, 20),
+        fixes: [
+            {
+                id: 'zoneless-change-detection',
+                name: 'Zoneless Change Detection Rename',
+                description: 'Renames provideExperimentalZonelessChangeDetection to provideZonelessChangeDetection',
+                confidence: 0.95,
+                check: (conflict) => isMissingExport(conflict.message, 'provideExperimentalZonelessChangeDetection'),
+                codemod: (sourceFile) => renameImport(sourceFile, {
+                    module: '@angular/core',
+                    name: 'provideExperimentalZonelessChangeDetection',
+                    newName: 'provideZonelessChangeDetection'
+                })
+            },
+            {
+                id: 'after-every-render',
+                name: 'afterRender Rename',
+                description: 'Renames afterRender to afterEveryRender',
+                confidence: 0.95,
+                check: (conflict) => isMissingExport(conflict.message, 'afterRender'),
+                codemod: (sourceFile) => renameImport(sourceFile, {
+                    module: '@angular/core',
+                    name: 'afterRender',
+                    newName: 'afterEveryRender'
+                })
+            }
+        ]
+    },
+    {
+        fromMajor: 20,
+        toMajor: 21,
+        breakingChanges: [
+            'New applications are zoneless by default',
+            'Vitest replaces Karma as the default test runner for new projects',
+            'HttpClient is provided by default'
+        ],
+        sources: officialSources(20, 21),
+        fixes: []
+    }
+];
+
+/**
+ * Returns the packs of every major step between two versions, in upgrade order.
+ * An unknown current version starts at the oldest pack; an unknown target ends at the newest.
+ *
+ * @param fromVersion - Current Angular version (e.g. '15.2.0')
+ * @param toVersion - Target Angular version (e.g. '17.0.0')
+ */
+export function getRulePacks(fromVersion: string | null, toVersion: string | null): RulePack[] {
+    const fromMajor = parseMajor(fromVersion) ?? RULE_PACKS[0].fromMajor;
+    const toMajor = parseMajor(toVersion) ?? RULE_PACKS[RULE_PACKS.length - 1].toMajor;
+
+    return RULE_PACKS.filter(pack => pack.fromMajor >= fromMajor && pack.toMajor <= toMajor);
+}
+
+/**
+ * Major version of a version string or range such as '^16.2.0'; null when there is none.
+ */
+function parseMajor(version: string | null): number | null {
+    const match = version?.match(/(\d+)/);
+    return match ? parseInt(match[1], 10) : null;
+}
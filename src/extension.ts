@@ -9,9 +9,14 @@
 // - Handle deactivation and cleanup
 
 import * as vscode from 'vscode';
-import { initializeWorkspace } from './initializeWorkspace';
+import { initializeWorkspace, getAngularRoot, getAngularAST } from './initializeWorkspace';
 import { initializeLogger, logSection, logInfo } from './logger';
+import { Conflict, MigrationConfig, Patch, PatchResult } from './types';
+import type { ErrorCluster } from './errorClustering/ErrorClusterer';
+import type { InstanceFixResult } from './clusterFix';
+import type { ClusterDecision, ClusterProgress } from './clusterHistory';
 import * as path from 'path';
+import * as fs from 'fs';
 
 /**
  * Called when the extension is activated (first time command is executed).
@@ -29,6 +34,22 @@ export async function activate(context: vscode.ExtensionContext) {
     const { loadLLMConfigFromSettings } = await import('./llmClient');
     loadLLMConfigFromSettings();
 
+    // Open the persistent patch journal in workspace storage
+    const { initializePatchJournal } = await import('./patchJournal');
+    initializePatchJournal(context);
+
+    // Remember error clusters and decisions across runs in the workspace state
+    const { initializeClusterHistory } = await import('./clusterHistory');
+    initializeClusterHistory(context);
+
+    // Serve patched content for side-by-side previews in the diff editor
+    const { registerPatchPreview } = await import('./ui/patchPreview');
+    registerPatchPreview(context);
+
+    // Show migration conflicts in the Problems panel, with quick fixes in the editor
+    const { registerProblemsPanel } = await import('./ui/problemsPanel');
+    registerProblemsPanel(context);
+
     // Register the main migration command
     const startCommand = vscode.commands.registerCommand('angularUpgrade.start', async () => {
         try {
@@ -114,7 +135,230 @@ export async function activate(context: vscode.ExtensionContext) {
         }
     });
 
-    context.subscriptions.push(startCommand, configureCommand);
+    // Register the undo command (reverts journaled fixes, also across restarts)
+    const undoCommand = vscode.commands.registerCommand('angularUpgrade.undoFixes', async () => {
+        const { getJournalEntries, revertJournalEntries } = await import('./patchJournal');
+        const entries = getJournalEntries().reverse();
+
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage('Angular Upgrade Assistant: No applied fixes to undo.');
+            return;
+        }
+
+        const picks = await vscode.window.showQuickPick(
+            entries.map(entry => ({
+                label: entry.description,
+                description: `${entry.source} · ${new Date(entry.timestamp).toLocaleString()}`,
+                detail: entry.files.map(file => vscode.workspace.asRelativePath(file.filePath)).join(', '),
+                id: entry.id
+            })),
+            {
+                canPickMany: true,
+                placeHolder: 'Select the fixes to revert (newest first)',
+                title: 'Undo Angular Upgrade Fixes'
+            }
+        );
+
+        if (!picks || picks.length === 0) {
+            return;
+        }
+
+        const result = await revertJournalEntries(picks.map(pick => pick.id));
+        let revertedCount = result.reverted.length;
+        let skipped = result.skipped;
+
+        // Files edited after the fix was applied need explicit confirmation
+        const modified = skipped.filter(item => item.reason.startsWith('modified'));
+        if (modified.length > 0) {
+            const choice = await vscode.window.showWarningMessage(
+                `${modified.length} fix(es) touch files that changed after they were applied. Revert them anyway?`,
+                { modal: true },
+                'Revert Anyway'
+            );
+
+            if (choice === 'Revert Anyway') {
+                const forced = await revertJournalEntries(modified.map(item => item.id), true);
+                revertedCount += forced.reverted.length;
+                skipped = skipped.filter(item => !modified.includes(item)).concat(forced.skipped);
+            }
+        }
+
+        const message = `Angular Upgrade Assistant: Reverted ${revertedCount} fix(es)` +
+            (skipped.length > 0 ? `, skipped ${skipped.length} (see Output for details).` : '.');
+        vscode.window.showInformationMessage(message);
+    });
+
+    // Register the export command ('shown' = patches in the review panel, 'run' = last run's applied fixes)
+    const exportCommand = vscode.commands.registerCommand('angularUpgrade.exportPatches', async (scope?: 'shown' | 'run') => {
+        const { getShownPatches } = await import('./ui/webviewPanel');
+        const { getLastRunEntries } = await import('./patchJournal');
+        const { formatPatchFile } = await import('./patchFile');
+
+        const shown = getShownPatches();
+        const applied: Patch[] = getLastRunEntries().map(entry => ({
+            diff: entry.diff,
+            description: entry.description,
+            filePath: entry.filePath,
+            source: entry.source
+        }));
+
+        if (!scope) {
+            const choice = await vscode.window.showQuickPick(
+                [
+                    { label: 'Patches under review', description: `${shown.length} patch(es)`, value: 'shown' as const },
+                    { label: 'Fixes applied in the last run', description: `${applied.length} patch(es)`, value: 'run' as const }
+                ],
+                { placeHolder: 'Which patches should be exported?', title: 'Export Patches' }
+            );
+            if (!choice) {
+                return;
+            }
+            scope = choice.value;
+        }
+
+        const patches = scope === 'shown' ? shown : applied;
+        if (patches.length === 0) {
+            vscode.window.showInformationMessage('Angular Upgrade Assistant: No patches to export.');
+            return;
+        }
+
+        const rootPath = getAngularRoot() ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? process.cwd();
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(path.join(rootPath, 'angular-upgrade.patch')),
+            filters: { 'Patch file (git apply)': ['patch', 'diff'], 'Mailbox (git am)': ['mbox'] },
+            saveLabel: 'Export'
+        });
+        if (!target) {
+            return;
+        }
+
+        const format = path.extname(target.fsPath) === '.mbox' ? 'mbox' : 'patch';
+        try {
+            fs.writeFileSync(target.fsPath, formatPatchFile(patches, format, rootPath), 'utf-8');
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Angular Upgrade Assistant: Could not export patches - ${error.message}`);
+            return;
+        }
+
+        logInfo(`Exported ${patches.length} patch(es) to ${target.fsPath}`);
+        vscode.window.showInformationMessage(`Angular Upgrade Assistant: Exported ${patches.length} patch(es) to ${path.basename(target.fsPath)}.`);
+    });
+
+    // Register the import command (patch files go through the normal review and apply flow)
+    const importCommand = vscode.commands.registerCommand('angularUpgrade.importPatches', async () => {
+        const { parsePatchFile } = await import('./patchFile');
+
+        const selection = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'Patch files': ['patch', 'diff', 'mbox'] },
+            openLabel: 'Import'
+        });
+        if (!selection || selection.length === 0) {
+            return;
+        }
+
+        const rootPath = getAngularRoot() ?? await initializeWorkspace();
+        if (!rootPath) {
+            return;
+        }
+
+        try {
+            const patches = parsePatchFile(fs.readFileSync(selection[0].fsPath, 'utf-8'), rootPath);
+            logInfo(`Imported ${patches.length} patch(es) from ${selection[0].fsPath}`);
+            await reviewImportedPatches(context, patches, path.basename(selection[0].fsPath));
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Angular Upgrade Assistant: Could not import patches - ${error.message}`);
+        }
+    });
+
+    // Register the rule test command (runs built-in and project fixtures on temporary copies)
+    const testRulesCommand = vscode.commands.registerCommand('angularUpgrade.testRules', async () => {
+        const { runRuleTests } = await import('./ruleTester');
+        const { showLog } = await import('./logger');
+
+        const rootPath = getAngularRoot() ?? await initializeWorkspace();
+        const results = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Angular Upgrade: Testing fix rules...' },
+            () => runRuleTests(rootPath)
+        );
+        showLog();
+
+        const failed = results.filter(r => !r.passed);
+        failed.filter(r => r.diff).forEach(r => logInfo(`Expected (-) vs actual (+) for ${r.name}:\n${r.diff}`));
+
+        if (results.length === 0) {
+            vscode.window.showWarningMessage('Angular Upgrade Assistant: No rule fixtures found.');
+        } else if (failed.length > 0) {
+            vscode.window.showErrorMessage(`Angular Upgrade Assistant: ${failed.length} of ${results.length} rule fixture(s) failed - see the Output channel.`);
+        } else {
+            vscode.window.showInformationMessage(`Angular Upgrade Assistant: All ${results.length} rule fixture(s) passed.`);
+        }
+    });
+
+    // Register the won't-fix command (clusters picked here are not proposed in later runs)
+    const wontFixCommand = vscode.commands.registerCommand('angularUpgrade.markWontFix', async () => {
+        const { getClusterHistory, setWontFix } = await import('./clusterHistory');
+        const records = getClusterHistory().filter(record => !record.resolvedAt);
+
+        if (records.length === 0) {
+            vscode.window.showInformationMessage('Angular Upgrade Assistant: No unresolved clusters recorded yet - run a migration first.');
+            return;
+        }
+
+        const picks = await vscode.window.showQuickPick(
+            records.map(record => ({
+                label: record.pattern,
+                description: `${record.instanceCount} error(s) · ${record.decision}`,
+                detail: `Last seen ${new Date(record.lastSeen).toLocaleString()}`,
+                picked: record.decision === 'wont-fix',
+                fingerprint: record.fingerprint
+            })),
+            {
+                canPickMany: true,
+                placeHolder: 'Select the clusters that should not be proposed again',
+                title: "Mark Clusters as Won't Fix"
+            }
+        );
+
+        if (!picks) {
+            return;
+        }
+
+        const selected = picks.map(pick => pick.fingerprint);
+        await setWontFix(selected, true);
+        await setWontFix(records.map(record => record.fingerprint).filter(fingerprint => !selected.includes(fingerprint)), false);
+        vscode.window.showInformationMessage(`Angular Upgrade Assistant: ${selected.length} cluster(s) marked won't fix.`);
+    });
+
+    // Register the inventory command (every @Component, @Directive, @Pipe, @Injectable and @NgModule);
+    // 'json' opens it as a JSON document instead of the webview
+    const inventoryCommand = vscode.commands.registerCommand('angularUpgrade.showInventory', async (format?: 'json') => {
+        const { createMigrationPanel, showInventory, openInventoryAsJson } = await import('./ui/webviewPanel');
+
+        if (!getAngularAST()) {
+            await initializeWorkspace();
+        }
+        const angularAST = getAngularAST();
+        if (!angularAST) {
+            vscode.window.showErrorMessage('Angular Upgrade Assistant: No Angular project loaded - cannot build the inventory.');
+            return;
+        }
+
+        const inventory = angularAST.getInventory();
+        logInfo(`Indexed ${inventory.artifacts.length} Angular artifact(s)`);
+
+        if (format === 'json') {
+            await openInventoryAsJson(inventory);
+            return;
+        }
+
+        const panel = createMigrationPanel(context);
+        if (panel) {
+            showInventory(panel, inventory);
+        }
+    });
+
+    context.subscriptions.push(startCommand, configureCommand, undoCommand, exportCommand, importCommand, testRulesCommand, wontFixCommand, inventoryCommand);
 }
 
 /**
@@ -143,21 +387,28 @@ export function deactivate() {
 async function startUpgradeProcess(context: vscode.ExtensionContext, angularRoot: string): Promise<void> {
     const { isGitRepository, createMigrationBranch, createCheckpoint } = await import('./gitUtils');
     const { getCurrentAngularVersion, scanPackageJson, identifyAngularPackages } = await import('./dependencyScanner');
-    const { runAngularUpdate, collectDiagnostics, verifyBuild } = await import('./analyzer');
+    const { runAngularUpdate, collectDiagnostics, rediagnoseFiles, verifyBuild, analyzeBreakingChanges } = await import('./analyzer');
     const { consolidateDocs } = await import('./docFetcher');
-    const { generatePatchSuggestions, isLLMAvailable } = await import('./llmClient');
-    const { applyPatch } = await import('./patcher');
+    const { isLLMAvailable } = await import('./llmClient');
     const { createMigrationPanel, updateProgress, showPatches, showSummary, waitForPatchApproval } = await import('./ui/webviewPanel');
     const { logInfo, logError, logSection, showLog } = await import('./logger');
     const { ErrorClusterer } = await import('./errorClustering/ErrorClusterer');
     const { PatternMatcher } = await import('./errorClustering/PatternMatcher');
+    const { beginJournalRun } = await import('./patchJournal');
+    const { fixClusterWithLLM } = await import('./clusterFix');
+    const { compareWithHistory, fingerprintKey, isWontFix, saveClusterRun } = await import('./clusterHistory');
+    const { publishConflicts } = await import('./ui/problemsPanel');
     // const { MigrationStep } = await import('./types'); // MigrationStep type is used inline as plain object
 
     logSection('Starting Angular Upgrade Process');
     showLog(); // Show output channel to user
+    beginJournalRun();
 
     // Track migration steps for UI
     const steps: any[] = [];
+    const migrationConfig = loadMigrationConfig();
+    const autoApplied: Patch[] = [];
+    const unfixedInstances: InstanceFixResult[] = [];
 
     // Create WebView panel
     const panel = createMigrationPanel(context);
@@ -236,7 +487,10 @@ async function startUpgradeProcess(context: vscode.ExtensionContext, angularRoot
 
         // Get packages to update from settings (configurable)
         const config = vscode.workspace.getConfiguration('angularUpgrade');
-        const packagesToUpdate = config.get<string[]>('packagesToUpdate', ['@angular/cli', '@angular/core']);
+        const targetSetting = migrationConfig.targetAngularVersion;
+        const packagesToUpdate = config.get<string[]>('packagesToUpdate', ['@angular/cli', '@angular/core'])
+            // Pin Angular packages to the chosen target unless the setting already names a version
+            .map(pkg => targetSetting && pkg.startsWith('@angular/') && !pkg.includes('@', 1) ? `${pkg}@${targetSetting}` : pkg);
 
         logInfo(`Packages to update: ${packagesToUpdate.join(', ')}`);
 
@@ -250,6 +504,12 @@ async function startUpgradeProcess(context: vscode.ExtensionContext, angularRoot
         }
         updateProgress(panel, steps);
 
+        // Without a chosen target, the upgrade goes to whatever ng update installed
+        const targetVersion = targetSetting || await getCurrentAngularVersion();
+        if (currentVersion && targetVersion) {
+            await analyzeBreakingChanges(currentVersion, targetVersion);
+        }
+
         // Step 5: Collect diagnostics
         steps.push({
             id: 'diagnostics',
@@ -261,16 +521,22 @@ async function startUpgradeProcess(context: vscode.ExtensionContext, angularRoot
 
         const conflicts = await collectDiagnostics();
         const errors = conflicts.filter(c => c.severity === 'error');
+        publishConflicts(conflicts, { rootPath: angularRoot, versions: { from: currentVersion, to: targetVersion } });
 
         steps[steps.length - 1].status = 'completed';
         steps[steps.length - 1].description = `Found ${errors.length} errors`;
         updateProgress(panel, steps);
 
         if (errors.length === 0) {
+            // Every cluster of the previous run is resolved now
+            const progress = compareWithHistory([]);
+            await saveClusterRun([], new Map());
+
             showSummary(panel, {
                 patchesApplied: 0,
                 errorsFixed: 0,
                 remainingIssues: 0,
+                progress: formatProgress(progress),
                 message: '✓ Migration completed successfully with no errors!'
             });
             return;
@@ -286,12 +552,67 @@ async function startUpgradeProcess(context: vscode.ExtensionContext, angularRoot
         updateProgress(panel, steps);
 
         const clusterer = new ErrorClusterer();
-        const clusters = clusterer.clusterErrors(errors);
+        const project = getAngularAST()?.getProject() ?? undefined;
+        const clusters = clusterer.clusterErrors(errors, project);
+
+        // Errors already in a cluster; follow-on errors are queued once their root cause is handled
+        const clustered = new Set<string>();
+        const logClusters = (found: ErrorCluster[]) => {
+            for (const cluster of found) {
+                const heldBack = cluster.rootCause ? `, ${cluster.rootCause.effects.length} follow-on errors` : '';
+                logInfo(`  ${cluster.id}: ${cluster.pattern} (${cluster.instances.length} errors${heldBack})`);
+                cluster.reasons.forEach(reason => logInfo(`    - ${reason}`));
+                cluster.instances.forEach(instance => clustered.add(errorKey(instance)));
+            }
+        };
+
+        // Root causes whose follow-on errors have been clustered; the others still hold theirs back
+        const expanded = new Set<ErrorCluster>();
+        const heldBackFingerprints = (found: ErrorCluster[]) => found
+            .filter(cluster => cluster.rootCause && !expanded.has(cluster))
+            .flatMap(cluster => cluster.rootCause!.effects)
+            .map(effect => fingerprintKey(clusterer.keyOf(effect)));
+
+        /**
+         * Clusters what is left of a root cause's follow-on errors. After a fix, only the
+         * files involved (and their dependents) are re-diagnosed; errors still there, and
+         * errors the fix introduced, are clustered like any others.
+         */
+        const followUpClusters = async (cluster: ErrorCluster, fixed: boolean): Promise<ErrorCluster[]> => {
+            if (!cluster.rootCause) {
+                return [];
+            }
+            expanded.add(cluster);
+
+            let followUps = cluster.rootCause.effects;
+            if (fixed) {
+                const files = Array.from(new Set([...cluster.instances, ...followUps].map(c => c.filePath)));
+                followUps = (await rediagnoseFiles(files))
+                    .filter(c => c.severity === 'error' && !clustered.has(errorKey(c)));
+            }
+
+            const next = clusterer.clusterErrors(followUps, project);
+            logInfo(`${followUps.length} follow-on errors of ${cluster.rootCause.symbol} ${fixed ? 'remain' : 'are queued'}, in ${next.length} clusters`);
+            logClusters(next);
+            return next;
+        };
 
         logInfo(`Grouped ${errors.length} errors into ${clusters.length} clusters`);
+        logClusters(clusters);
+
+        // Compare with the clusters of earlier runs
+        const progress = compareWithHistory(clusters, heldBackFingerprints(clusters));
+        const decisions = new Map<ErrorCluster, ClusterDecision>();
+        logInfo(`Since the last run: ${progress.newClusters.length} new, ${progress.resolved.length} resolved, ` +
+            `${progress.regressed.length} regressed, ${progress.wontFix.length} marked won't fix`);
+        progress.newClusters.forEach(cluster => logInfo(`  + new: ${cluster.pattern}`));
+        progress.regressed.forEach(({ cluster, previousCount }) =>
+            logInfo(`  ! regressed: ${cluster.pattern} (${previousCount} → ${cluster.instances.length} errors)`));
+        progress.resolved.forEach(record => logInfo(`  ✓ resolved: ${record.pattern}`));
 
         steps[steps.length - 1].status = 'completed';
-        steps[steps.length - 1].description = `Grouped into ${clusters.length} patterns`;
+        steps[steps.length - 1].description = `Grouped into ${clusters.length} patterns ` +
+            `(${progress.newClusters.length} new, ${progress.resolved.length} resolved, ${progress.regressed.length} regressed)`;
         updateProgress(panel, steps);
 
         // Step 7: Apply Tier 1 Fixes (Pattern Matching)
@@ -303,30 +624,57 @@ async function startUpgradeProcess(context: vscode.ExtensionContext, angularRoot
         });
         updateProgress(panel, steps);
 
-        const patternMatcher = new PatternMatcher();
+        const patternMatcher = new PatternMatcher(angularRoot, { from: currentVersion, to: targetVersion });
         let tier1PatchesApplied = 0;
-        const remainingClusters = [];
+        const remainingClusters: ErrorCluster[] = [];
 
+        // Root causes come first; clusters of their follow-on errors are appended and visited in turn
         for (const cluster of clusters) {
+            if (isWontFix(cluster)) {
+                logInfo(`Cluster ${cluster.id} is marked won't fix - not proposed`);
+                continue;
+            }
+
             const pattern = patternMatcher.matchPattern(cluster);
+            const appliedBefore = tier1PatchesApplied;
 
             if (pattern) {
                 logInfo(`Cluster ${cluster.id} matches pattern: ${pattern.name}`);
+                const unmatched = patternMatcher.unmatchedInstances(cluster, pattern);
+                if (unmatched.length > 0) {
+                    // Requeued as a cluster of their own, matched against the other patterns in turn
+                    const split = clusterer.splitCluster(cluster, unmatched, pattern.id);
+                    logInfo(`${unmatched.length} errors of ${cluster.id} do not match ${pattern.name}, requeued as ${split.id}`);
+                    logClusters([split]);
+                    clusters.push(split);
+                }
                 const patches = patternMatcher.generateFixes(cluster, pattern);
+                let rejected = false;
 
                 if (patches.length > 0) {
-                    // Show patches to user for approval (batch approval for patterns)
-                    showPatches(panel, patches);
-                    const approved = await waitForPatchApproval(0);
-
-                    if (approved) {
-                        for (const patch of patches) {
-                            const success = await applyPatch(patch.filePath, patch);
-                            if (success) tier1PatchesApplied++;
+                    const { applied, review } = await autoApplyConfidentPatches(panel, patches, migrationConfig);
+                    tier1PatchesApplied += applied.length;
+                    autoApplied.push(...applied);
+
+                    if (review.length > 0) {
+                        // Show patches to user for approval (batch approval for patterns)
+                        showPatches(panel, review);
+                        const approved = await waitForPatchApproval(0);
+
+                        if (approved) {
+                            for (const patch of review) {
+                                const result = await applyPatchWithMergeFallback(panel, patch.filePath, patch);
+                                if (result.success) tier1PatchesApplied++;
+                            }
+                        } else {
+                            rejected = true;
                         }
                     }
                 }
+                decisions.set(cluster, tier1PatchesApplied > appliedBefore ? 'approved' : rejected ? 'rejected' : 'skipped');
+                clusters.push(...await followUpClusters(cluster, tier1PatchesApplied > appliedBefore));
             } else {
+                // Unmatched root causes go to tier 2 first, with their follow-on errors after them
                 remainingClusters.push(cluster);
             }
         }
@@ -336,6 +684,7 @@ async function startUpgradeProcess(context: vscode.ExtensionContext, angularRoot
         updateProgress(panel, steps);
 
         // Step 8: Apply Tier 2 Fixes (LLM)
+        let tier2PatchesApplied = 0;
         if (remainingClusters.length > 0) {
             steps.push({
                 id: 'tier2-fixes',
@@ -349,45 +698,48 @@ async function startUpgradeProcess(context: vscode.ExtensionContext, angularRoot
             if (!llmAvailable) {
                 vscode.window.showWarningMessage('LLM not available. Skipping Tier 2 fixes.');
             } else {
-                let tier2PatchesApplied = 0;
                 const maxPatchesPerRun = config.get<number>('maxPatchesPerRun', 10);
                 let patchesGenerated = 0;
 
                 for (const cluster of remainingClusters) {
                     if (patchesGenerated >= maxPatchesPerRun) break;
-
-                    // Use the representative error for LLM context
-                    const error = cluster.representative;
-                    const docs = await consolidateDocs('@angular/core', currentVersion || '18.0.0', '19.0.0');
-                    const codeSnippet = `// Error at ${error.filePath}:${error.lineNumber}\n// Message: ${error.message}`;
-
-                    const patches = await generatePatchSuggestions(error.message, codeSnippet, docs);
-
-                    if (patches.length > 0) {
-                        // Apply to all instances in cluster if possible, or just the representative
-                        // For now, let's just apply to the representative to be safe
-                        showPatches(panel, patches);
+                    if (isWontFix(cluster)) {
+                        logInfo(`Cluster ${cluster.id} is marked won't fix - not proposed`);
+                        continue;
+                    }
+                    const appliedBefore = tier2PatchesApplied;
+                    let rejected = false;
+
+                    // One fix for the whole cluster, verified per instance; failed instances are reported
+                    const docs = await consolidateDocs('@angular/core', currentVersion || '18.0.0', targetVersion || '19.0.0');
+                    const results = await fixClusterWithLLM(cluster, { rootPath: angularRoot, docs, patternMatcher });
+                    unfixedInstances.push(...results.filter(r => r.status === 'failed' || r.status === 'skipped'));
+                    const patches = results.flatMap(r => r.patches);
+
+                    const { applied, review } = await autoApplyConfidentPatches(panel, patches, migrationConfig);
+                    tier2PatchesApplied += applied.length;
+                    patchesGenerated += applied.length;
+                    autoApplied.push(...applied);
+
+                    if (review.length > 0) {
+                        showPatches(panel, review);
                         const approved = await waitForPatchApproval(0);
 
                         if (approved) {
-                            for (const patch of patches) {
-                                // Resolve relative paths from LLM
-                                let targetPath = patch.filePath;
-                                if (!path.isAbsolute(targetPath) && angularRoot) {
-                                    targetPath = path.join(angularRoot, targetPath);
-                                }
-
-                                // Update patch object with absolute path
-                                patch.filePath = targetPath;
-
-                                const success = await applyPatch(targetPath, patch);
-                                if (success) {
+                            for (const patch of review) {
+                                const result = await applyPatchWithMergeFallback(panel, patch.filePath, patch);
+                                if (result.success) {
                                     tier2PatchesApplied++;
                                     patchesGenerated++;
                                 }
                             }
+                        } else {
+                            rejected = true;
                         }
                     }
+
+                    decisions.set(cluster, tier2PatchesApplied > appliedBefore ? 'approved' : rejected ? 'rejected' : 'skipped');
+                    remainingClusters.push(...await followUpClusters(cluster, tier2PatchesApplied > appliedBefore));
                 }
 
                 steps[steps.length - 1].description = `Applied ${tier2PatchesApplied} AI fixes`;
@@ -408,16 +760,33 @@ async function startUpgradeProcess(context: vscode.ExtensionContext, angularRoot
         const buildSuccess = await verifyBuild();
         const remainingErrors = await collectDiagnostics();
         const remainingErrorCount = remainingErrors.filter(c => c.severity === 'error').length;
+        publishConflicts(remainingErrors, { rootPath: angularRoot, versions: { from: currentVersion, to: targetVersion }, patternMatcher });
 
         steps[steps.length - 1].status = buildSuccess ? 'completed' : 'failed';
         steps[steps.length - 1].description = buildSuccess ? 'Build successful' : `${remainingErrorCount} errors remain`;
         updateProgress(panel, steps);
 
+        // Tier 2 follow-up clusters are only in remainingClusters
+        const allClusters = Array.from(new Set([...clusters, ...remainingClusters]));
+        await saveClusterRun(allClusters, decisions, heldBackFingerprints(allClusters));
+
         // Show final summary
         showSummary(panel, {
-            patchesApplied: tier1PatchesApplied + (steps.find(s => s.id === 'tier2-fixes')?.description.match(/(\d+)/)?.[1] || 0),
+            patchesApplied: tier1PatchesApplied + tier2PatchesApplied,
             errorsFixed: errors.length - remainingErrorCount,
             remainingIssues: remainingErrorCount,
+            autoApplied: autoApplied.map(patch => ({
+                description: patch.description,
+                filePath: path.relative(angularRoot, patch.filePath),
+                confidence: patch.confidence
+            })),
+            progress: formatProgress(progress),
+            unfixedInstances: unfixedInstances.map(result => ({
+                location: `${path.relative(angularRoot, result.conflict.filePath)}:${result.conflict.lineNumber}`,
+                message: result.conflict.message,
+                reason: result.error,
+                conflict: result.conflict
+            })),
             message: buildSuccess
                 ? '✓ Migration completed successfully!'
                 : `Migration completed. ${remainingErrorCount} errors require manual fixes.`
@@ -435,3 +804,150 @@ async function startUpgradeProcess(context: vscode.ExtensionContext, angularRoot
         });
     }
 }
+
+/**
+ * Turns the comparison with earlier runs into plain data for the summary view.
+ */
+function formatProgress(progress: ClusterProgress) {
+    return {
+        newClusters: progress.newClusters.map(cluster => `${cluster.pattern} (${cluster.instances.length} errors)`),
+        regressed: progress.regressed.map(({ cluster, previousCount }) =>
+            `${cluster.pattern} (${previousCount} → ${cluster.instances.length} errors)`),
+        resolved: progress.resolved.map(record => record.pattern),
+        wontFix: progress.wontFix.map(cluster => cluster.pattern)
+    };
+}
+
+/**
+ * Identifies an error across diagnostics runs; line numbers shift as files are edited.
+ */
+function errorKey(conflict: Conflict): string {
+    return `${path.normalize(conflict.filePath)}\u0000${conflict.message}`;
+}
+
+/**
+ * Reads the migration options from the extension settings.
+ */
+function loadMigrationConfig(): MigrationConfig {
+    const config = vscode.workspace.getConfiguration('angularUpgrade');
+    const provider = config.get<string>('llmProvider', 'copilot');
+
+    return {
+        targetAngularVersion: config.get<string>('targetVersion', '').trim(),
+        useLLM: provider !== 'none',
+        llmProvider: provider === 'copilot' || provider === 'gemini' ? provider : 'other',
+        autoApplyPatches: config.get<boolean>('autoApplyPatches', false),
+        autoApplyThreshold: config.get<number>('autoApplyThreshold', 0.9),
+        // Branch creation is not configurable yet
+        createGitBranch: true
+    };
+}
+
+/**
+ * Applies the patches whose confidence reaches the auto-apply threshold, without
+ * asking for approval, and returns the rest for review, including confident patches
+ * that failed to apply (with the reason). Nothing is applied automatically unless
+ * `autoApplyPatches` is enabled.
+ * 
+ * @param panel - The WebView panel used if a merge needs resolving
+ * @param patches - Patches with their confidence scores
+ * @param migrationConfig - Migration options holding the auto-apply settings
+ * @returns Patches applied without review, and patches still needing approval
+ */
+async function autoApplyConfidentPatches(
+    panel: vscode.WebviewPanel,
+    patches: Patch[],
+    migrationConfig: MigrationConfig
+): Promise<{ applied: Patch[]; review: Patch[] }> {
+    if (!migrationConfig.autoApplyPatches) {
+        return { applied: [], review: patches };
+    }
+
+    const applied: Patch[] = [];
+    const review: Patch[] = [];
+
+    for (const patch of patches) {
+        const confidence = patch.confidence ?? 0;
+        if (confidence < migrationConfig.autoApplyThreshold) {
+            review.push(patch);
+            continue;
+        }
+
+        logInfo(`Auto-applying ${patch.description} (${Math.round(confidence * 100)}% confidence)`);
+        const result = await applyPatchWithMergeFallback(panel, patch.filePath, patch);
+        if (result.success) {
+            applied.push(patch);
+        } else {
+            patch.reviewReason = result.error ?? 'the patch did not apply';
+            logInfo(`Auto-apply failed for ${patch.description} (${patch.reviewReason}) - left for review`);
+            review.push(patch);
+        }
+    }
+
+    return { applied, review };
+}
+
+/**
+ * Applies a patch; if the file changed since the patch was generated and the
+ * three-way merge left conflicts, asks the user to resolve them in the webview.
+ * 
+ * @param panel - The WebView panel used for conflict resolution
+ * @param filePath - Absolute path of the file to patch
+ * @param patch - The patch to apply
+ * @returns Promise resolving to the final patch result
+ */
+async function applyPatchWithMergeFallback(panel: vscode.WebviewPanel, filePath: string, patch: Patch): Promise<PatchResult> {
+    const { applyPatch, applyMergeResolution } = await import('./patcher');
+    const { showMergeConflicts, waitForMergeResolution } = await import('./ui/webviewPanel');
+
+    const result = await applyPatch(filePath, patch);
+    if (result.success || !result.merge) {
+        return result;
+    }
+
+    showMergeConflicts(panel, patch, result.merge);
+    const resolutions = await waitForMergeResolution();
+
+    if (!resolutions) {
+        logInfo(`Skipped patch for ${path.basename(filePath)} - merge conflicts left unresolved`);
+        return result;
+    }
+
+    return applyMergeResolution(filePath, patch, resolutions);
+}
+
+
+/**
+ * Shows imported patches one at a time for approval and applies the approved ones.
+ * 
+ * @param context - The extension context, used to open the migration panel
+ * @param patches - Patches parsed from a patch file
+ * @param fileName - Name of the imported file, for the summary
+ */
+async function reviewImportedPatches(context: vscode.ExtensionContext, patches: Patch[], fileName: string): Promise<void> {
+    const { createMigrationPanel, showPatches, showSummary, waitForPatchApproval } = await import('./ui/webviewPanel');
+
+    const panel = createMigrationPanel(context);
+    if (!panel) {
+        vscode.window.showErrorMessage('Failed to create migration panel');
+        return;
+    }
+
+    let applied = 0;
+    for (const patch of patches) {
+        showPatches(panel, [patch]);
+        const approved = await waitForPatchApproval(0);
+
+        if (approved) {
+            const result = await applyPatchWithMergeFallback(panel, patch.filePath, patch);
+            if (result.success) applied++;
+        }
+    }
+
+    showSummary(panel, {
+        patchesApplied: applied,
+        errorsFixed: 0,
+        remainingIssues: patches.length - applied,
+        message: `Applied ${applied} of ${patches.length} patch(es) imported from ${fileName}.`
+    });
+}
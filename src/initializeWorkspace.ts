@@ -28,7 +28,7 @@ export let angularAST: AngularAST | null = null;
  * It will:
  * 1. Get the VS Code workspace root folder
  * 2. Search for the Angular project root (handles monorepos)
- * 3. Initialize ts-morph Project with the Angular project's tsconfig.json
+ * 3. Initialize ts-morph Projects for the Angular project's tsconfigs (angular.json targets and project references)
  * 4. Store the detected path and Project instance for use throughout the extension
  * 5. Show a notification to the user with the detected path
  * 
@@ -0,0 +1,187 @@
+// lineDiff.ts
+// This module computes minimal line-based edit scripts between two texts.
+// It implements the Myers O(ND) difference algorithm used by git and GNU diff, in its
+// linear-space variant, and is the basis for generating reviewable unified-diff hunks.
+
+/**
+ * A single step of an edit script.
+ * Indices are 0-based positions in the old and new line arrays.
+ */
+export interface DiffOp {
+    type: 'equal' | 'delete' | 'insert';
+    oldIndex: number;
+    newIndex: number;
+    text: string;
+}
+
+/**
+ * Computes a shortest edit script turning `oldLines` into `newLines`.
+ *
+ * @param oldLines - Lines of the original text
+ * @param newLines - Lines of the modified text
+ * @returns Edit script covering every line of both inputs, in order
+ */
+export function computeLineDiff(oldLines: string[], newLines: string[]): DiffOp[] {
+    // Strip the common prefix and suffix first; most patches touch a few lines of a large file
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+        prefix++;
+    }
+
+    let suffix = 0;
+    while (
+        suffix < oldLines.length - prefix &&
+        suffix < newLines.length - prefix &&
+        oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const ops: DiffOp[] = [];
+
+    for (let i = 0; i < prefix; i++) {
+        ops.push({ type: 'equal', oldIndex: i, newIndex: i, text: oldLines[i] });
+    }
+
+    const middle = myers(
+        oldLines.slice(prefix, oldLines.length - suffix),
+        newLines.slice(prefix, newLines.length - suffix)
+    );
+
+    for (const op of middle) {
+        ops.push({ ...op, oldIndex: op.oldIndex + prefix, newIndex: op.newIndex + prefix });
+    }
+
+    for (let i = suffix; i > 0; i--) {
+        ops.push({
+            type: 'equal',
+            oldIndex: oldLines.length - i,
+            newIndex: newLines.length - i,
+            text: oldLines[oldLines.length - i]
+        });
+    }
+
+    return ops;
+}
+
+/**
+ * Linear-space Myers: finds the middle snake of the shortest edit script, then
+ * diffs the parts before and after it recursively. Only two diagonal vectors are
+ * kept, so memory stays O(N + M) even for near-total rewrites of large files.
+ */
+function myers(a: string[], b: string[]): DiffOp[] {
+    const ops: DiffOp[] = [];
+    diffRange(a, 0, a.length, b, 0, b.length, ops);
+    return ops;
+}
+
+/**
+ * Appends the edit script for `a[aStart..aEnd)` → `b[bStart..bEnd)` to `ops`.
+ */
+function diffRange(a: string[], aStart: number, aEnd: number, b: string[], bStart: number, bEnd: number, ops: DiffOp[]): void {
+    // Common prefix and suffix are equal lines and need no search
+    let prefix = 0;
+    while (aStart + prefix < aEnd && bStart + prefix < bEnd && a[aStart + prefix] === b[bStart + prefix]) {
+        ops.push({ type: 'equal', oldIndex: aStart + prefix, newIndex: bStart + prefix, text: a[aStart + prefix] });
+        prefix++;
+    }
+    aStart += prefix;
+    bStart += prefix;
+
+    let suffix = 0;
+    while (aEnd - suffix > aStart && bEnd - suffix > bStart && a[aEnd - 1 - suffix] === b[bEnd - 1 - suffix]) {
+        suffix++;
+    }
+    aEnd -= suffix;
+    bEnd -= suffix;
+
+    if (aStart === aEnd) {
+        for (let y = bStart; y < bEnd; y++) {
+            ops.push({ type: 'insert', oldIndex: aStart, newIndex: y, text: b[y] });
+        }
+    } else if (bStart === bEnd) {
+        for (let x = aStart; x < aEnd; x++) {
+            ops.push({ type: 'delete', oldIndex: x, newIndex: bStart, text: a[x] });
+        }
+    } else {
+        const snake = findMiddleSnake(a, aStart, aEnd, b, bStart, bEnd);
+
+        diffRange(a, aStart, snake.startX, b, bStart, snake.startY, ops);
+        for (let i = 0; i < snake.endX - snake.startX; i++) {
+            ops.push({ type: 'equal', oldIndex: snake.startX + i, newIndex: snake.startY + i, text: a[snake.startX + i] });
+        }
+        diffRange(a, snake.endX, aEnd, b, snake.endY, bEnd, ops);
+    }
+
+    for (let i = suffix; i > 0; i--) {
+        ops.push({ type: 'equal', oldIndex: aEnd + suffix - i, newIndex: bEnd + suffix - i, text: a[aEnd + suffix - i] });
+    }
+}
+
+/**
+ * Runs the forward and backward searches simultaneously until their furthest-reaching
+ * paths overlap; the snake where they meet lies on a shortest edit script.
+ * Both ranges must be non-empty and differ in their first and last lines.
+ *
+ * @returns Absolute start and end positions of the middle snake
+ */
+function findMiddleSnake(
+    a: string[], aStart: number, aEnd: number,
+    b: string[], bStart: number, bEnd: number
+): { startX: number; startY: number; endX: number; endY: number } {
+    const n = aEnd - aStart;
+    const m = bEnd - bStart;
+    const delta = n - m;
+    const odd = (delta & 1) !== 0;
+    const max = Math.ceil((n + m) / 2);
+    const offset = max + 1;
+    // Furthest x per diagonal; the backward vector counts x from the end of the range
+    const forward = new Array<number>(2 * max + 3).fill(0);
+    const backward = new Array<number>(2 * max + 3).fill(0);
+
+    for (let d = 0; d <= max; d++) {
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+                ? forward[offset + k + 1]
+                : forward[offset + k - 1] + 1;
+            let y = x - k;
+            const startX = x;
+            const startY = y;
+
+            while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+                x++;
+                y++;
+            }
+            forward[offset + k] = x;
+
+            // Backward diagonal delta - k was searched d - 1 times
+            const reverseK = delta - k;
+            if (odd && reverseK >= -(d - 1) && reverseK <= d - 1 && x + backward[offset + reverseK] >= n) {
+                return { startX: aStart + startX, startY: bStart + startY, endX: aStart + x, endY: bStart + y };
+            }
+        }
+
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+                ? backward[offset + k + 1]
+                : backward[offset + k - 1] + 1;
+            let y = x - k;
+            const startX = x;
+            const startY = y;
+
+            while (x < n && y < m && a[aEnd - 1 - x] === b[bEnd - 1 - y]) {
+                x++;
+                y++;
+            }
+            backward[offset + k] = x;
+
+            const forwardK = delta - k;
+            if (!odd && forwardK >= -d && forwardK <= d && x + forward[offset + forwardK] >= n) {
+                return { startX: aEnd - x, startY: bEnd - y, endX: aEnd - startX, endY: bEnd - startY };
+            }
+        }
+    }
+
+    // Unreachable: the searches meet after at most ceil((n + m) / 2) rounds
+    throw new Error('Middle snake not found');
+}
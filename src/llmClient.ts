@@ -6,6 +6,7 @@ import * as vscode from 'vscode';
 import { consolidateDocs } from './docFetcher';
 import { logInfo, logError, logSection } from './logger';
 import { Patch } from './types';
+import { formatDiagnosticCode } from './ast/templateDiagnostics';
 
 /**
  * Configuration for LLM provider
@@ -416,8 +417,10 @@ ${docs.substring(0, 2000)} // Truncate to avoid token limits
 ## Instructions
 1. Analyze the error in the context of the Angular migration
 2. Generate a unified-diff patch that fixes the issue
-3. Provide a brief explanation of the changes
-4. Format your response as JSON:
+3. If the fix spans several files (e.g. component, module and spec), put every file in the same diff,
+   one \`--- a/...\`/\`+++ b/...\` section per file; use \`/dev/null\` for created or deleted files
+4. Provide a brief explanation of the changes
+5. Format your response as JSON:
 
 \`\`\`json
 {
@@ -444,26 +447,23 @@ function parseLLMResponse(response: string): Patch[] {
     const patches: Patch[] = [];
 
     try {
-        // Try to extract JSON from the response
-        const jsonMatch = response.match(/```json\n([\s\S]*?)\n```/) ||
-            response.match(/\{[\s\S]*"patches"[\s\S]*\}/);
+        const jsonText = findJsonBlock(response, 'patches');
 
-        if (!jsonMatch) {
+        if (!jsonText) {
             logError('Could not find JSON in LLM response');
             return patches;
         }
 
-        const jsonText = jsonMatch[1] || jsonMatch[0];
         const parsed = JSON.parse(jsonText);
 
         if (parsed.patches && Array.isArray(parsed.patches)) {
             for (const patchData of parsed.patches) {
-                patches.push({
-                    diff: patchData.diff,
-                    description: patchData.description || 'LLM-generated patch',
-                    filePath: patchData.filePath,
-                    source: 'llm'
-                });
+                const patch = toLLMPatch(patchData);
+                if (typeof patch === 'string') {
+                    logError(`Dropped a suggested patch: ${patch}`);
+                } else {
+                    patches.push(patch);
+                }
             }
         }
 
@@ -491,6 +491,219 @@ function parseLLMResponse(response: string): Patch[] {
     return patches;
 }
 
+/**
+ * Finds the JSON payload of a response: a ```json block, or a bare object naming one of the keys.
+ */
+function findJsonBlock(response: string, ...keys: string[]): string | null {
+    const fenced = response.match(/```json\n([\s\S]*?)\n```/);
+    if (fenced) {
+        return fenced[1];
+    }
+
+    for (const key of keys) {
+        const bare = response.match(new RegExp(`\\{[\\s\\S]*"${key}"[\\s\\S]*\\}`));
+        if (bare) {
+            return bare[0];
+        }
+    }
+    return null;
+}
+
+/**
+ * One error of a cluster, as shown to the LLM.
+ */
+export interface ClusterInstanceContext {
+    /** Path relative to the project root */
+    filePath: string;
+    lineNumber: number;
+    column?: number;
+    /** The whole message chain */
+    message: string;
+    code?: number;
+    /** Related locations, as `file:line: message` */
+    related?: string[];
+    /** Numbered source lines around the error */
+    excerpt: string;
+    /** Angular artifacts declared in the file, one summary line each */
+    angular?: string[];
+    /** Template diagnostics: the components, directives and pipes the message names */
+    referenced?: string[];
+}
+
+/**
+ * The LLM's fix for a whole cluster: a fix rule when the change generalises,
+ * otherwise patches for the individual instances.
+ */
+export interface ClusterFixSuggestion {
+    /** Rule in the `.angular-upgrade/rules` format, not yet validated */
+    rule?: unknown;
+    /** Patches with the (0-based) index of the instance each one fixes, null when not given */
+    patches: Array<{ instance: number | null; patch: Patch }>;
+    /** Entries of the answer that are not usable patches, with the instance they were tagged with */
+    rejected?: Array<{ instance: number | null; reason: string }>;
+}
+
+/**
+ * Asks the LLM for one transformation that fixes every instance of an error cluster.
+ * The first instance is the worked example; the LLM answers with a fix rule, or with
+ * one patch per instance when the change cannot be expressed as a rule.
+ * 
+ * @param instances - Every instance of the cluster, the representative first
+ * @param docs - Relevant documentation
+ * @returns Promise resolving to the suggestion (no rule and no patches on failure)
+ */
+export async function generateClusterFix(instances: ClusterInstanceContext[], docs: string): Promise<ClusterFixSuggestion> {
+    logSection('Generating Cluster Fix');
+
+    const prompt = constructClusterPrompt(instances, docs);
+
+    try {
+        const response = await queryLLM(prompt);
+        const suggestion = parseClusterFixResponse(response);
+
+        logInfo(suggestion.rule
+            ? 'LLM suggested a fix rule for the cluster'
+            : `LLM suggested ${suggestion.patches.length} patch(es) for ${instances.length} instance(s)`);
+
+        return suggestion;
+
+    } catch (error: any) {
+        logError('Failed to generate cluster fix', error);
+        return { patches: [] };
+    }
+}
+
+/**
+ * Constructs the prompt for a cluster-wide fix.
+ * 
+ * @param instances - Cluster instances, the representative first
+ * @param docs - Relevant documentation
+ * @returns The constructed prompt
+ */
+function constructClusterPrompt(instances: ClusterInstanceContext[], docs: string): string {
+    const [example] = instances;
+    const listed = instances.map((instance, index) => `### Instance ${index + 1}: ${instance.filePath}:${instance.lineNumber}${instance.column ? `:${instance.column}` : ''}
+${instance.code !== undefined ? `${formatDiagnosticCode(instance.code)}: ` : ''}${instance.message}
+${instance.related?.length ? `Related:\n${instance.related.map(line => `- ${line}`).join('\n')}\n` : ''}${instance.angular?.length ? `Declared in this file:\n${instance.angular.map(line => `- ${line}`).join('\n')}\n` : ''}${instance.referenced?.length ? `Referenced in the template:\n${instance.referenced.map(line => `- ${line}`).join('\n')}\n` : ''}\`\`\`typescript
+${instance.excerpt}
+\`\`\``).join('\n\n');
+
+    return `You are an expert Angular developer helping with a migration.
+
+## Task
+The same TypeScript error occurs ${instances.length} time(s) in an Angular project. Work out the fix for the
+first instance, then generalise it so that it fixes every instance listed below.
+
+## Error Message
+\`\`\`
+${example.message}
+\`\`\`
+
+## Instances
+${listed}
+
+## Migration Documentation
+${docs.substring(0, 2000)} // Truncate to avoid token limits
+
+## Instructions
+1. Prefer a single fix rule when one mechanical change fixes every instance. Rules use this format:
+   - "id": lowercase letters, digits and dashes
+   - "match": { "message": regular expression tested against the error message, "code": TypeScript error code }
+   - either "replace": { "find": regular expression, "with": replacement ($1.. refer to groups), "scope": "line" or "file" }
+   - or "ast": { "operation": "renameImport", "module", "name", "newName", "newModule" },
+     { "operation": "removeImport", "module", "name" }, { "operation": "removeProperty", "property" }
+     or { "operation": "renameIdentifier", "from", "to" }
+2. Otherwise return one unified-diff patch per instance, each with the number of the instance it fixes
+3. Format your response as JSON, either:
+
+\`\`\`json
+{
+  "rule": {
+    "id": "rename-old-api",
+    "description": "Brief explanation of the change",
+    "match": { "message": "has no exported member 'OldApi'" },
+    "ast": { "operation": "renameImport", "module": "@angular/core", "name": "OldApi", "newName": "NewApi" }
+  }
+}
+\`\`\`
+
+or:
+
+\`\`\`json
+{
+  "patches": [
+    {
+      "instance": 1,
+      "diff": "--- a/file.ts\\n+++ b/file.ts\\n@@ -1,3 +1,3 @@\\n-old line\\n+new line",
+      "description": "Brief explanation of the change",
+      "filePath": "path/to/file.ts"
+    }
+  ]
+}
+\`\`\`
+
+Generate the fix now.`;
+}
+
+/**
+ * Parses the LLM's answer to a cluster prompt: a rule, or patches tagged with their instance.
+ * 
+ * @param response - The raw LLM response
+ * @returns The suggestion; unparseable answers fall back to plain patch extraction
+ */
+function parseClusterFixResponse(response: string): ClusterFixSuggestion {
+    const jsonText = findJsonBlock(response, 'rule', 'patches');
+
+    try {
+        const parsed = jsonText ? JSON.parse(jsonText) : null;
+
+        if (parsed?.rule && typeof parsed.rule === 'object') {
+            return { rule: parsed.rule, patches: [] };
+        }
+
+        if (Array.isArray(parsed?.patches)) {
+            const suggestion: ClusterFixSuggestion = { patches: [], rejected: [] };
+            for (const patchData of parsed.patches) {
+                // Instances are numbered from 1 in the prompt
+                const instance = Number.isInteger(patchData?.instance) ? patchData.instance - 1 : null;
+                const patch = toLLMPatch(patchData);
+                if (typeof patch === 'string') {
+                    suggestion.rejected!.push({ instance, reason: patch });
+                } else {
+                    suggestion.patches.push({ instance, patch });
+                }
+            }
+            return suggestion;
+        }
+    } catch (error: any) {
+        logError('Failed to parse cluster fix response as JSON', error);
+    }
+
+    return { patches: parseLLMResponse(response).map(patch => ({ instance: null, patch })) };
+}
+
+/**
+ * Builds a patch from one entry of the "patches" array of an LLM answer.
+ *
+ * @param patchData - The entry, as parsed from JSON
+ * @returns The patch, or why the entry is not usable
+ */
+function toLLMPatch(patchData: any): Patch | string {
+    if (typeof patchData?.diff !== 'string' || patchData.diff.trim() === '') {
+        return 'the LLM returned a patch without a diff';
+    }
+    if (typeof patchData.filePath !== 'string' || patchData.filePath.trim() === '') {
+        return 'the LLM returned a patch without a file path';
+    }
+
+    return {
+        diff: patchData.diff,
+        description: typeof patchData.description === 'string' && patchData.description ? patchData.description : 'LLM-generated patch',
+        filePath: patchData.filePath,
+        source: 'llm'
+    };
+}
+
 /**
  * Asks LLM to explain a breaking change or migration step.
  * 
@@ -0,0 +1,335 @@
+// patchFile.ts
+// This module converts patch sets to and from standard patch files, so proposed fixes
+// can be reviewed outside VS Code. Exports are either plain `.patch` files that
+// `git apply` accepts, or mbox files in `git format-patch` layout for `git am`.
+// Imported patches become ordinary `Patch` objects with `source: 'manual'`.
+
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { isInsideRoot, splitMultiFileDiff } from './patcher';
+import { Patch } from './types';
+
+/**
+ * Supported patch file layouts.
+ * - `patch`: concatenated unified diffs, one `# [n/m]` comment line per patch
+ * - `mbox`: one email per patch, as written by `git format-patch --stdout`
+ */
+export type PatchFileFormat = 'patch' | 'mbox';
+
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/;
+const PATCH_MARKER_PATTERN = /^# \[\d+\/\d+\] (.*)$/;
+const MBOX_SEPARATOR_PATTERN = /^From \S+ +\w{3} \w{3} +\d+ [\d:]+ \d{4}$/;
+const MBOX_AUTHOR = 'Angular Upgrade Assistant <angular-upgrade-assistant@localhost>';
+
+/**
+ * Serializes patches into a patch file.
+ * Diffs are normalized on the way out: file headers get `a/` and `b/` prefixes
+ * relative to `rootPath`, blank context lines get their leading space back,
+ * and hunk line counts are recomputed, so the result applies with `git apply`.
+ *
+ * @param patches - Patches to export, in apply order
+ * @param format - Output layout
+ * @param rootPath - Directory diff paths are made relative to
+ * @returns File content
+ * @throws Error if a patch touches a file outside `rootPath`, which `git apply` could not locate
+ */
+export function formatPatchFile(patches: Patch[], format: PatchFileFormat, rootPath: string): string {
+    const diffs = patches.map(patch => normalizeDiff(patch, rootPath));
+
+    if (format === 'mbox') {
+        const date = new Date().toUTCString();
+        return patches
+            .map((patch, i) => formatMboxMessage(patch, diffs[i], `${i + 1}/${patches.length}`, date))
+            .join('\n');
+    }
+
+    let content = `# Angular Upgrade Assistant patch set (${patches.length} patches)\n# Apply with: git apply <file>\n`;
+    patches.forEach((patch, i) => {
+        content += `# [${i + 1}/${patches.length}] ${singleLine(patch.description)}\n${diffs[i]}`;
+    });
+
+    return content;
+}
+
+/**
+ * Parses a patch file into patches ready for review.
+ * Accepts mbox files, files written by `formatPatchFile`, and plain unified or
+ * `git diff` output; in the last case every file section becomes its own patch.
+ *
+ * @param content - File content
+ * @param rootPath - Directory relative diff paths are resolved against
+ * @returns Patches with `source: 'manual'`
+ * @throws Error if the file contains no diff that names the file it changes
+ */
+export function parsePatchFile(content: string, rootPath: string): Patch[] {
+    const lines = content.split('\n');
+    const blocks = lines.some(line => MBOX_SEPARATOR_PATTERN.test(line))
+        ? splitMbox(lines)
+        : splitPlainPatch(lines);
+
+    const patches = blocks
+        .filter(block => block.diff.trim().length > 0)
+        .map(block => toPatch(block.diff, block.description, rootPath));
+
+    if (patches.length === 0) {
+        throw new Error('No diffs found in patch file');
+    }
+
+    return patches;
+}
+
+/**
+ * Formats one patch as a `git format-patch` style email.
+ */
+function formatMboxMessage(patch: Patch, diff: string, sequence: string, date: string): string {
+    const hash = crypto.createHash('sha1').update(diff, 'utf8').digest('hex');
+    const body = [`Generated by Angular Upgrade Assistant (source: ${patch.source}).`];
+
+    if (patch.targetConflict) {
+        body.push(`Fixes: ${path.basename(patch.targetConflict.filePath)}:${patch.targetConflict.lineNumber} ${singleLine(patch.targetConflict.message)}`);
+    }
+
+    return [
+        `From ${hash} Mon Sep 17 00:00:00 2001`,
+        `From: ${MBOX_AUTHOR}`,
+        `Date: ${date}`,
+        `Subject: [PATCH ${sequence}] ${singleLine(patch.description)}`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=UTF-8',
+        'Content-Transfer-Encoding: 8bit',
+        '',
+        ...body,
+        '---',
+        diff + '-- ',
+        'Angular Upgrade Assistant',
+        ''
+    ].join('\n');
+}
+
+/**
+ * Splits an mbox into one block per message, using the subject as description.
+ */
+function splitMbox(lines: string[]): Array<{ description: string; diff: string }> {
+    const messages: string[][] = [];
+
+    for (const line of lines) {
+        if (MBOX_SEPARATOR_PATTERN.test(line)) {
+            messages.push([]);
+        } else if (messages.length > 0) {
+            messages[messages.length - 1].push(line);
+        }
+    }
+
+    return messages.map(message => {
+        const headerEnd = message.indexOf('');
+        const headers = headerEnd === -1 ? message : message.slice(0, headerEnd);
+
+        // Folded header lines continue with leading whitespace
+        let subject = '';
+        let inSubject = false;
+        for (const header of headers) {
+            if (/^subject:/i.test(header)) {
+                subject = header.substring('subject:'.length).trim();
+                inSubject = true;
+            } else if (inSubject && /^\s/.test(header)) {
+                subject += ' ' + header.trim();
+            } else {
+                inSubject = false;
+            }
+        }
+
+        const body = headerEnd === -1 ? [] : message.slice(headerEnd + 1);
+        const diffStart = body.findIndex((line, i) =>
+            line.startsWith('diff --git ') || (line.startsWith('--- ') && (body[i + 1] || '').startsWith('+++ ')));
+
+        let diffLines = diffStart === -1 ? [] : body.slice(diffStart);
+        const signature = diffLines.lastIndexOf('-- ');
+        if (signature !== -1 && !diffLines.slice(signature + 1).some(line => HUNK_HEADER_PATTERN.test(line))) {
+            diffLines = diffLines.slice(0, signature);
+        }
+
+        return {
+            description: subject.replace(/^\[PATCH[^\]]*\]\s*/, '') || 'Imported patch',
+            diff: joinDiffLines(diffLines)
+        };
+    });
+}
+
+/**
+ * Splits a plain patch file at the `# [n/m]` markers written by `formatPatchFile`,
+ * or into file sections when the file has no markers.
+ */
+function splitPlainPatch(lines: string[]): Array<{ description: string; diff: string }> {
+    if (!lines.some(line => PATCH_MARKER_PATTERN.test(line))) {
+        return splitMultiFileDiff(lines.filter(line => !line.startsWith('#')).join('\n')).map(file => ({
+            description: `Imported change to ${file.newPath ?? file.oldPath ?? 'unknown file'}`,
+            diff: file.diff
+        }));
+    }
+
+    const blocks: Array<{ description: string; lines: string[] }> = [];
+
+    for (const line of lines) {
+        const marker = line.match(PATCH_MARKER_PATTERN);
+        if (marker) {
+            blocks.push({ description: marker[1], lines: [] });
+        } else if (blocks.length > 0 && !line.startsWith('#')) {
+            // '#' never starts a diff line, so other comment lines are dropped
+            blocks[blocks.length - 1].lines.push(line);
+        }
+    }
+
+    return blocks.map(block => ({ description: block.description, diff: joinDiffLines(block.lines) }));
+}
+
+/**
+ * Builds an imported patch, targeting the first file named in the diff.
+ * Like on export, every file the diff names must be inside the project root.
+ */
+function toPatch(diff: string, description: string, rootPath: string): Patch {
+    const files = splitMultiFileDiff(diff);
+    const target = files[0].newPath ?? files[0].oldPath;
+
+    if (!target) {
+        throw new Error(`Diff for "${description}" does not name the file it changes`);
+    }
+
+    const outside = files.flatMap(file => [file.oldPath, file.newPath])
+        .find(filePath => filePath !== null && !isInsideRoot(filePath, rootPath));
+    if (outside) {
+        throw new Error(`Diff for "${description}" changes ${outside}, which is outside ${rootPath}`);
+    }
+
+    return {
+        diff,
+        description,
+        filePath: path.resolve(rootPath, target),
+        source: 'manual'
+    };
+}
+
+/**
+ * Rewrites a patch's diff into the strict form `git apply` expects.
+ */
+function normalizeDiff(patch: Patch, rootPath: string): string {
+    let lines = patch.diff.split('\n');
+
+    // Diffs that are only hunks get file headers from the patch target
+    if (!lines.some(line => line.startsWith('--- ') || line.startsWith('diff --git '))) {
+        const headerPath = toHeaderPath(patch.filePath, rootPath);
+        lines = [`--- a/${headerPath}`, `+++ b/${headerPath}`, ...lines];
+    }
+
+    const output: string[] = [];
+    let hunk: { header: RegExpMatchArray; lines: string[] } | null = null;
+    const flushHunk = () => {
+        if (hunk) {
+            output.push(...formatHunk(hunk.header, hunk.lines));
+            hunk = null;
+        }
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const header = line.match(HUNK_HEADER_PATTERN);
+
+        if (header) {
+            flushHunk();
+            hunk = { header, lines: [] };
+        } else if (line.startsWith('--- ') && (lines[i + 1] || '').startsWith('+++ ')) {
+            flushHunk();
+            output.push(formatFileHeader('---', line, 'a/', rootPath), formatFileHeader('+++', lines[i + 1], 'b/', rootPath));
+            i++;
+        } else if (line.startsWith('diff --git ')) {
+            flushHunk();
+            output.push(line);
+        } else if (hunk) {
+            hunk.lines.push(line);
+        } else if (line !== '') {
+            // index, mode and rename lines between headers
+            output.push(line);
+        }
+    }
+
+    flushHunk();
+    return output.join('\n') + '\n';
+}
+
+/**
+ * Recomputes a hunk's line counts from its body.
+ * Trailing blank lines are only kept as context while the header counts call
+ * for them, mirroring how the patcher reads hand-written and LLM diffs.
+ */
+function formatHunk(header: RegExpMatchArray, lines: string[]): string[] {
+    const expected = (header[2] ? parseInt(header[2], 10) : 1) + (header[4] ? parseInt(header[4], 10) : 1);
+    const body = lines.filter(line => line === '' || /^[ +\-\\]/.test(line));
+    const weight = (line: string) => (line === '' || line.startsWith(' ') ? 2 : line.startsWith('\\') ? 0 : 1);
+
+    while (body.length > 0 && body[body.length - 1] === '' &&
+        body.reduce((sum, line) => sum + weight(line), 0) > expected) {
+        body.pop();
+    }
+
+    let oldCount = 0;
+    let newCount = 0;
+    for (const line of body) {
+        if (line === '' || line.startsWith(' ')) {
+            oldCount++;
+            newCount++;
+        } else if (line.startsWith('-')) {
+            oldCount++;
+        } else if (line.startsWith('+')) {
+            newCount++;
+        }
+    }
+
+    return [
+        `@@ -${header[1]},${oldCount} +${header[3]},${newCount} @@${header[5]}`,
+        ...body.map(line => (line === '' ? ' ' : line))
+    ];
+}
+
+/**
+ * Rewrites a `---`/`+++` header with a prefixed, root-relative path.
+ */
+function formatFileHeader(marker: '---' | '+++', line: string, prefix: 'a/' | 'b/', rootPath: string): string {
+    const filePath = line.substring(4).split('\t')[0].trim();
+
+    if (filePath === '/dev/null') {
+        return `${marker} /dev/null`;
+    }
+
+    return `${marker} ${prefix}${toHeaderPath(filePath.replace(/^[ab]\//, ''), rootPath)}`;
+}
+
+/**
+ * Converts a path into the forward-slash, root-relative form used in diff headers.
+ * Absolute paths (e.g. from patches created without a project root) are made relative.
+ */
+function toHeaderPath(filePath: string, rootPath: string): string {
+    const relative = path.isAbsolute(filePath) ? path.relative(rootPath, filePath) : filePath;
+
+    if (path.isAbsolute(relative) || relative.split(/[\\/]/)[0] === '..') {
+        throw new Error(`${filePath} is outside ${rootPath}; patches can only be exported relative to the project root`);
+    }
+
+    return relative.split(path.sep).join('/');
+}
+
+/**
+ * Joins diff lines, dropping the blank lines that separate messages or patches.
+ */
+function joinDiffLines(lines: string[]): string {
+    const trimmed = [...lines];
+    while (trimmed.length > 0 && trimmed[trimmed.length - 1] === '') {
+        trimmed.pop();
+    }
+    return trimmed.length > 0 ? trimmed.join('\n') + '\n' : '';
+}
+
+/**
+ * Collapses a description onto one line for subjects and comment markers.
+ */
+function singleLine(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,425 @@
+// patchJournal.ts
+// This module keeps a persistent journal of every patch applied to the workspace.
+// The journal lives in the extension's workspace storage directory, so fixes can be
+// reviewed and reverted even after VS Code restarts. Each file's content before the patch
+// is stored, so a revert restores exactly what was there, whatever merge, offset or fuzz
+// produced the patched text. File hashes recorded at apply time are checked before
+// reverting, so later manual edits are never silently overwritten.
+// Entries are listed in a small index; the original contents are kept in one file per
+// entry next to it. Reverted entries and the oldest entries past a cap are pruned.
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { logInfo, logError } from './logger';
+import { readFileContent, resolveWriteMode, writeFileChanges, FileChange } from './workspaceWriter';
+import { Patch } from './types';
+
+/**
+ * State of one file touched by a journaled patch.
+ */
+export interface JournalFileRecord {
+    filePath: string;
+    /** Hash of the content before the patch ('absent' if the file did not exist) */
+    originalHash: string;
+    /** Hash of the content written by the patch ('absent' if the file was deleted) */
+    patchedHash: string;
+}
+
+/**
+ * A single applied patch, as stored in the journal.
+ */
+export interface JournalEntry {
+    id: string;
+    timestamp: string;
+    source: Patch['source'];
+    description: string;
+    diff: string;
+    /** Patch.filePath at apply time */
+    filePath: string;
+    /** Directory relative diff paths were resolved against (multi-file patches) */
+    rootPath?: string;
+    files: JournalFileRecord[];
+    /** Migration run the patch was applied in, if any */
+    runId?: string;
+}
+
+const JOURNAL_DIRECTORY_NAME = 'patch-journal';
+const INDEX_FILE_NAME = 'index.json';
+/** Single-file journal of earlier versions, with the original contents inline; migrated on first read */
+const LEGACY_JOURNAL_FILE_NAME = 'patch-journal.json';
+/** Entries kept; older ones are pruned with their original contents */
+const MAX_JOURNAL_ENTRIES = 200;
+
+/**
+ * An entry of the single-file journal: reverted entries were kept and marked, and
+ * (since the original contents were recorded) each file carried its content inline.
+ */
+interface LegacyJournalEntry extends Omit<JournalEntry, 'files'> {
+    files: Array<JournalFileRecord & { originalContent?: string | null }>;
+    revertedAt?: string;
+}
+
+let journalDirectory: string | undefined;
+let legacyJournalPath: string | undefined;
+/** The index as last read or written; the journal is only changed through this module */
+let cachedEntries: JournalEntry[] | undefined;
+let currentRunId: string | undefined;
+
+/**
+ * Sets up the journal location. Should be called during extension activation.
+ *
+ * @param context - Extension context providing the workspace storage directory
+ */
+export function initializePatchJournal(context: vscode.ExtensionContext): void {
+    const storageUri = context.storageUri ?? context.globalStorageUri;
+    journalDirectory = path.join(storageUri.fsPath, JOURNAL_DIRECTORY_NAME);
+    legacyJournalPath = path.join(storageUri.fsPath, LEGACY_JOURNAL_FILE_NAME);
+    cachedEntries = undefined;
+}
+
+/**
+ * Starts a new migration run; patches recorded from now on are tagged with it.
+ *
+ * @returns The new run id
+ */
+export function beginJournalRun(): string {
+    currentRunId = `run-${Date.now().toString(36)}`;
+    return currentRunId;
+}
+
+/**
+ * Hashes file content for journal comparisons.
+ *
+ * @param content - File content, or null for a missing file
+ * @returns SHA-256 hex digest, or 'absent'
+ */
+export function hashContent(content: string | null): string {
+    if (content === null) {
+        return 'absent';
+    }
+    return crypto.createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+/**
+ * Records an applied patch.
+ *
+ * @param patch - The patch that was applied
+ * @param files - Per-file content before and after the patch
+ * @param rootPath - Root used to resolve relative paths, for multi-file patches
+ * @returns The stored entry, or undefined if the journal is not available
+ */
+export function recordPatch(
+    patch: Patch,
+    files: Array<{ filePath: string; original: string | null; content: string | null }>,
+    rootPath?: string
+): JournalEntry | undefined {
+    if (!journalDirectory) {
+        return undefined;
+    }
+
+    const entry: JournalEntry = {
+        id: `${Date.now().toString(36)}-${crypto.randomBytes(3).toString('hex')}`,
+        timestamp: new Date().toISOString(),
+        source: patch.source,
+        description: patch.description,
+        diff: patch.diff,
+        filePath: patch.filePath,
+        rootPath,
+        runId: currentRunId,
+        files: files.map(file => ({
+            filePath: file.filePath,
+            originalHash: hashContent(file.original),
+            patchedHash: hashContent(file.content)
+        }))
+    };
+
+    try {
+        writeOriginals(entry.id, files.map(file => file.original));
+        writeJournal(pruneEntries([...readJournal(), entry]));
+    } catch (error: any) {
+        logError('Failed to record patch in journal', error);
+        return undefined;
+    }
+
+    return entry;
+}
+
+/**
+ * Returns the journal entries that can still be reverted, oldest first.
+ */
+export function getJournalEntries(): JournalEntry[] {
+    return [...readJournal()];
+}
+
+/**
+ * Returns the entries of the most recent migration run that are still applied, oldest first.
+ */
+export function getLastRunEntries(): JournalEntry[] {
+    const entries = readJournal();
+    const lastRun = [...entries].reverse().find(entry => entry.runId)?.runId;
+
+    return lastRun ? entries.filter(entry => entry.runId === lastRun) : [];
+}
+
+/**
+ * Reverts journal entries, newest first, by restoring each file's original content.
+ * Each file must still hash to what the patch wrote; otherwise the entry is skipped
+ * unless `force` is set. An entry is only removed from the journal once every file
+ * hashes back to its original content.
+ *
+ * @param ids - Entry ids to revert
+ * @param force - Revert even if files changed after the patch was applied
+ * @returns Ids that were reverted and ids that were skipped, with reasons
+ */
+export async function revertJournalEntries(
+    ids: string[],
+    force: boolean = false
+): Promise<{ reverted: string[]; skipped: Array<{ id: string; reason: string }> }> {
+    const entries = readJournal();
+    // The journal is in apply order, so walking it backwards reverts newest first
+    const selected = entries
+        .filter(entry => ids.includes(entry.id))
+        .reverse();
+
+    const reverted: string[] = [];
+    const skipped: Array<{ id: string; reason: string }> = [];
+
+    for (const entry of selected) {
+        const changed = entry.files.filter(file => hashContent(readIfExists(file.filePath)) !== file.patchedHash);
+
+        if (changed.length > 0 && !force) {
+            const reason = `modified since the patch was applied: ${changed.map(f => path.basename(f.filePath)).join(', ')}`;
+            logError(`Not reverting "${entry.description}" - ${reason}`);
+            skipped.push({ id: entry.id, reason });
+            continue;
+        }
+
+        const restore = await planRestore(entry);
+        if ('error' in restore) {
+            logError(`Not reverting "${entry.description}" - ${restore.error}`);
+            skipped.push({ id: entry.id, reason: restore.error });
+            continue;
+        }
+
+        try {
+            await writeFileChanges(restore.changes, resolveWriteMode(), `Revert: ${entry.description}`);
+        } catch (error: any) {
+            logError(`Failed to revert "${entry.description}"`, error);
+            skipped.push({ id: entry.id, reason: error.message });
+            continue;
+        }
+
+        const mismatched = entry.files.filter(file => hashContent(readIfExists(file.filePath)) !== file.originalHash);
+        if (mismatched.length > 0) {
+            const reason = `not restored to the original content: ${mismatched.map(f => path.basename(f.filePath)).join(', ')}`;
+            logError(`"${entry.description}" ${reason}`);
+            skipped.push({ id: entry.id, reason });
+            continue;
+        }
+
+        reverted.push(entry.id);
+    }
+
+    writeJournal(pruneEntries(entries.filter(entry => !reverted.includes(entry.id))));
+    logInfo(`Reverted ${reverted.length} journal entries, skipped ${skipped.length}`);
+
+    return { reverted, skipped };
+}
+
+/**
+ * Works out the file changes that bring an entry's files back to their original content:
+ * the stored content, or for older entries the reverse diff, checked in memory against
+ * the original hashes before anything is written.
+ */
+async function planRestore(entry: JournalEntry): Promise<{ changes: FileChange[] } | { error: string }> {
+    const originals = readOriginals(entry);
+    if (originals) {
+        const changes = entry.files
+            .map((file, index) => ({ file, content: originals[index] }))
+            .filter(({ file }) => hashContent(readIfExists(file.filePath)) !== file.originalHash)
+            .map(({ file, content }) => ({ filePath: file.filePath, original: readIfExists(file.filePath) ?? '', content }));
+        return { changes };
+    }
+
+    const { previewPatch, createReverseDiff } = await import('./patcher');
+    const reversePatch: Patch = {
+        diff: createReverseDiff(entry.diff),
+        description: entry.description,
+        filePath: entry.filePath,
+        source: entry.source
+    };
+
+    const { changes, error } = previewPatch(entry.filePath, reversePatch, { rootPath: entry.rootPath });
+    if (error) {
+        return { error: `reverse patch did not apply (${error})` };
+    }
+
+    // Content of each path once the changes are written; untouched paths keep their current content
+    const restored = new Map<string, string | null>();
+    for (const change of changes) {
+        if (change.renamedFrom) {
+            restored.set(change.renamedFrom, null);
+        }
+        restored.set(change.filePath, change.content);
+    }
+
+    const wrong = entry.files.filter(file =>
+        hashContent(restored.has(file.filePath) ? restored.get(file.filePath)! : readIfExists(file.filePath)) !== file.originalHash);
+    if (wrong.length > 0) {
+        return { error: `reverse patch would not restore the original content of ${wrong.map(f => path.basename(f.filePath)).join(', ')}` };
+    }
+
+    return { changes };
+}
+
+/**
+ * Reads a file the way the patcher sees it (open editors included), or null if it does not exist.
+ */
+function readIfExists(filePath: string): string | null {
+    return fs.existsSync(filePath) ? readFileContent(filePath, resolveWriteMode()) : null;
+}
+
+/**
+ * Loads the journal index, from the cache once it has been read.
+ * An unreadable index is moved aside, so the next write starts a new one
+ * instead of overwriting the recorded history.
+ */
+function readJournal(): JournalEntry[] {
+    if (!journalDirectory) {
+        return [];
+    }
+    if (cachedEntries) {
+        return cachedEntries;
+    }
+
+    const indexPath = path.join(journalDirectory, INDEX_FILE_NAME);
+    if (!fs.existsSync(indexPath)) {
+        cachedEntries = migrateLegacyJournal();
+        return cachedEntries;
+    }
+
+    try {
+        const entries = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+        if (!Array.isArray(entries)) {
+            throw new Error('Journal is not a list of entries');
+        }
+        cachedEntries = entries as JournalEntry[];
+    } catch (error: any) {
+        moveAside(indexPath, error);
+        cachedEntries = [];
+    }
+    return cachedEntries;
+}
+
+/**
+ * Renames an unreadable journal file and tells the user the fixes it listed cannot be reverted.
+ */
+function moveAside(filePath: string, error: Error): void {
+    const asidePath = `${filePath}.unreadable-${Date.now()}`;
+    fs.renameSync(filePath, asidePath);
+    logError(`Patch journal is unreadable - moved to ${asidePath}`, error);
+    vscode.window.showWarningMessage(
+        `Angular Upgrade Assistant: The patch journal could not be read and was moved to ${path.basename(asidePath)}. ` +
+        'Fixes applied before this point cannot be reverted from the journal.'
+    );
+}
+
+/**
+ * Saves the journal index.
+ */
+function writeJournal(entries: JournalEntry[]): void {
+    if (!journalDirectory) {
+        return;
+    }
+
+    fs.mkdirSync(journalDirectory, { recursive: true });
+    fs.writeFileSync(path.join(journalDirectory, INDEX_FILE_NAME), JSON.stringify(entries, null, 2), 'utf-8');
+    cachedEntries = entries;
+}
+
+/**
+ * Keeps the newest MAX_JOURNAL_ENTRIES entries and deletes the original contents of the others.
+ */
+function pruneEntries(entries: JournalEntry[]): JournalEntry[] {
+    const kept = entries.slice(-MAX_JOURNAL_ENTRIES);
+    const keptIds = new Set(kept.map(entry => entry.id));
+
+    for (const name of fs.existsSync(originalsDirectory()) ? fs.readdirSync(originalsDirectory()) : []) {
+        if (!keptIds.has(path.basename(name, '.json'))) {
+            fs.rmSync(path.join(originalsDirectory(), name), { force: true });
+        }
+    }
+    if (kept.length < entries.length) {
+        logInfo(`Pruned ${entries.length - kept.length} old patch journal entries`);
+    }
+    return kept;
+}
+
+/**
+ * Stores the content each file of an entry had before the patch (null if it did not exist).
+ */
+function writeOriginals(id: string, originals: Array<string | null>): void {
+    fs.mkdirSync(originalsDirectory(), { recursive: true });
+    fs.writeFileSync(path.join(originalsDirectory(), `${id}.json`), JSON.stringify(originals), 'utf-8');
+}
+
+/**
+ * Reads the original contents of an entry, in the order of its files. Undefined when they
+ * were not stored (entries recorded by older versions) or cannot be read.
+ */
+function readOriginals(entry: JournalEntry): Array<string | null> | undefined {
+    const originalsPath = path.join(originalsDirectory(), `${entry.id}.json`);
+    if (!fs.existsSync(originalsPath)) {
+        return undefined;
+    }
+
+    try {
+        const originals = JSON.parse(fs.readFileSync(originalsPath, 'utf-8'));
+        return Array.isArray(originals) && originals.length === entry.files.length ? originals : undefined;
+    } catch (error: any) {
+        logError(`Stored original content of "${entry.description}" is unreadable`, error);
+        return undefined;
+    }
+}
+
+function originalsDirectory(): string {
+    return path.join(journalDirectory!, 'originals');
+}
+
+/**
+ * Moves the entries of a single-file journal written by an earlier version into the
+ * index, with their inline original contents (if any) split out into their own files.
+ */
+function migrateLegacyJournal(): JournalEntry[] {
+    if (!legacyJournalPath || !fs.existsSync(legacyJournalPath)) {
+        return [];
+    }
+
+    try {
+        const legacy = JSON.parse(fs.readFileSync(legacyJournalPath, 'utf-8'));
+        if (!Array.isArray(legacy)) {
+            throw new Error('Journal is not a list of entries');
+        }
+
+        const entries: JournalEntry[] = [];
+        for (const { revertedAt, files, ...entry } of legacy as LegacyJournalEntry[]) {
+            if (revertedAt) {
+                continue;
+            }
+            if (files.every(file => file.originalContent !== undefined)) {
+                writeOriginals(entry.id, files.map(file => file.originalContent!));
+            }
+            entries.push({ ...entry, files: files.map(({ originalContent, ...file }) => file) });
+        }
+
+        writeJournal(pruneEntries(entries));
+        fs.rmSync(legacyJournalPath);
+        logInfo(`Moved ${entries.length} entries of the patch journal to ${journalDirectory}`);
+        return entries;
+    } catch (error: any) {
+        moveAside(legacyJournalPath, error);
+        return [];
+    }
+}
@@ -2,99 +2,241 @@
 // This module applies unified-diff format patches to workspace files.
 // It handles patch validation, conflict detection, and safe file modifications.
 
+import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { logInfo, logError, logSection } from './logger';
-import { Patch } from './types';
+import { getAngularRoot, getAngularAST } from './initializeWorkspace';
+import { computeLineDiff, DiffOp } from './lineDiff';
+import { readFileContent, resolveWriteMode, writeFileChanges, FileChange, WriteMode } from './workspaceWriter';
+import { mergeThreeWay, renderMerge } from './threeWayMerge';
+import { recordPatch, revertJournalEntries } from './patchJournal';
+import { normalizeLineEndings } from './textFormat';
+import { Patch, PatchResult, HunkResult, FilePatch, VerificationResult, MergeResult, MergeResolution } from './types';
+
+/**
+ * Options controlling how tolerant hunk matching is.
+ */
+export interface ApplyPatchOptions {
+    /** Maximum number of lines a hunk may be displaced from its header position */
+    maxOffset?: number;
+    /** Maximum number of leading/trailing context lines that may be ignored */
+    fuzzFactor?: number;
+    /** Directory that relative paths in multi-file diffs are resolved against */
+    rootPath?: string;
+    /** Write through a WorkspaceEdit (undoable) or straight to disk; defaults to the setting */
+    mode?: WriteMode;
+    /**
+     * Speculative check against the in-memory TypeScript project before writing:
+     * `reject` blocks patches that add errors or miss their target, `flag` only warns.
+     */
+    verification?: 'reject' | 'flag' | 'off';
+    /** Record the applied patch in the persistent patch journal (default: true) */
+    journal?: boolean;
+}
+
+/**
+ * A single line inside a hunk, tagged with its diff operation.
+ */
+interface DiffLine {
+    type: 'context' | 'removal' | 'addition';
+    text: string;
+    /** Followed by "\ No newline at end of file": the line ends its side of the file without a newline */
+    noEol?: boolean;
+}
+
+/**
+ * A parsed unified-diff hunk.
+ */
+interface DiffHunk {
+    oldStart: number;
+    oldCount: number;
+    newStart: number;
+    newCount: number;
+    lines: DiffLine[];
+    /**
+     * Whether the hunk reaches the end of the file, and if so whether the new
+     * file ends with a newline. Set when a line of the hunk carries the no-newline marker.
+     */
+    endOfFile?: { newlineAfter: boolean };
+}
+
+const HUNK_HEADER_PATTERN = /^@@ -(\d+),?(\d*) \+(\d+),?(\d*) @@/;
 
 /**
  * Applies a unified-diff patch to a file.
  * 
+ * Hunks are located GNU-patch style: context and removal lines must match the file,
+ * the hunk may be found within an offset window around its header position,
+ * and up to `fuzzFactor` outer context lines may be ignored.
+ * The file is only written when every hunk applies. By default the change goes through
+ * a WorkspaceEdit, so open editors are honoured and the fix can be undone with Ctrl+Z.
+ * 
  * @param filePath - Absolute path to the file
  * @param patch - Patch object containing diff and metadata
- * @returns Promise resolving to true on success, false on failure
+ * @param options - Optional offset/fuzz overrides (defaults come from settings)
+ * @returns Promise resolving to the patch result with per-hunk outcomes
  */
-export async function applyPatch(filePath: string, patch: Patch): Promise<boolean> {
+export async function applyPatch(filePath: string, patch: Patch, options: ApplyPatchOptions = {}): Promise<PatchResult> {
+    if (isMultiFileDiff(patch.diff)) {
+        return applyMultiFilePatch(patch, {
+            ...options,
+            rootPath: options.rootPath ?? getAngularRoot() ?? path.dirname(filePath)
+        });
+    }
+
     logInfo(`Applying patch to: ${filePath}`);
 
     if (!fs.existsSync(filePath)) {
         logError(`File not found: ${filePath}`);
-        return false;
+        return { success: false, filePath, hunks: [], error: 'File not found' };
     }
 
     try {
-        // Read current file content
-        const fileContent = fs.readFileSync(filePath, 'utf-8');
+        // Read current file content (an open editor's unsaved text wins in workspaceEdit mode)
+        const mode = resolveWriteMode(options.mode);
+        const fileContent = readFileContent(filePath, mode);
 
-        // Validate that patch can be applied
-        if (!validatePatch(fileContent, patch)) {
-            logError('Patch validation failed - cannot apply');
-            return false;
-        }
-
-        // Apply the patch
-        const patchedContent = applyUnifiedDiff(fileContent, patch.diff);
+        // Apply the patch in memory
+        const { content, hunks } = applyUnifiedDiff(fileContent, patch.diff, options);
+        logHunkResults(hunks);
+        let patchedContent = content;
 
         if (patchedContent === null) {
-            logError('Failed to apply unified-diff');
-            return false;
-        }
+            const error = hunks.length === 0
+                ? 'Patch contains no hunks'
+                : `${hunks.filter(h => h.status === 'rejected').length} of ${hunks.length} hunks rejected`;
+            logError(`Patch validation failed - cannot apply (${error})`);
 
-        // Write patched content back to file
-        fs.writeFileSync(filePath, patchedContent, 'utf-8');
+            // The file changed since the patch was generated: merge against the original base
+            const merge = mergeWithBase(fileContent, patch, options);
+            if (!merge) {
+                return { success: false, filePath, hunks, error };
+            }
+            if (!merge.clean) {
+                logError(`Three-way merge left ${merge.conflicts.length} conflict(s) for manual resolution`);
+                return { success: false, filePath, hunks, merge, error: `${merge.conflicts.length} merge conflict(s)` };
+            }
+
+            logInfo('✓ Patch merged cleanly with the current file (three-way)');
+            patchedContent = renderMerge(merge);
+        }
 
-        logInfo(`✓ Patch applied successfully to ${path.basename(filePath)}`);
-        return true;
+        return await commitPatchedContent(filePath, fileContent, patchedContent, patch, options, hunks);
 
     } catch (error: any) {
         logError(`Failed to apply patch to ${filePath}`, error);
-        return false;
+        return { success: false, filePath, hunks: [], error: error.message };
     }
 }
 
 /**
- * Validates that a patch can be applied without conflicts.
+ * Applies a patch whose three-way merge had conflicts, using the user's resolutions.
+ * The merge is recomputed from the current file, so edits made since the
+ * conflicts were shown are not lost; if the conflicts changed, nothing is written.
  * 
- * @param fileContent - Current file content
- * @param patch - Patch to validate
- * @returns True if patch can be applied, false otherwise
+ * @param filePath - Absolute path to the file
+ * @param patch - Patch carrying the `baseContent` it was generated against
+ * @param resolutions - One resolution per conflict, by conflict index
+ * @param options - Optional apply options
+ * @returns Promise resolving to the patch result
  */
-export function validatePatch(fileContent: string, patch: Patch): boolean {
+export async function applyMergeResolution(
+    filePath: string,
+    patch: Patch,
+    resolutions: MergeResolution[],
+    options: ApplyPatchOptions = {}
+): Promise<PatchResult> {
+    logInfo(`Applying resolved merge to: ${filePath}`);
+
     try {
-        // Parse the unified diff
-        const diffLines = patch.diff.split('\n');
-        const fileLines = fileContent.split('\n');
+        const mode = resolveWriteMode(options.mode);
+        const fileContent = readFileContent(filePath, mode);
+        const merge = mergeWithBase(fileContent, patch, options);
+
+        if (!merge) {
+            return { success: false, filePath, hunks: [], error: 'Patch cannot be merged with the current file' };
+        }
+        if (merge.conflicts.length !== resolutions.length || merge.conflicts.some(c => !resolutions[c.index])) {
+            logError('File changed since the merge conflicts were shown - not applying');
+            return { success: false, filePath, hunks: [], merge, error: 'Merge conflicts changed' };
+        }
+
+        return await commitPatchedContent(filePath, fileContent, renderMerge(merge, resolutions), patch, options, []);
+
+    } catch (error: any) {
+        logError(`Failed to apply resolved merge to ${filePath}`, error);
+        return { success: false, filePath, hunks: [], error: error.message };
+    }
+}
 
-        // Find hunk headers (@@ -start,count +start,count @@)
-        const hunkPattern = /^@@ -(\d+),?(\d*) \+(\d+),?(\d*) @@/;
+/**
+ * Verifies patched content speculatively and writes it to the workspace.
+ */
+async function commitPatchedContent(
+    filePath: string,
+    fileContent: string,
+    patchedContent: string,
+    patch: Patch,
+    options: ApplyPatchOptions,
+    hunks: HunkResult[]
+): Promise<PatchResult> {
+    const changes: FileChange[] = [{ filePath, original: fileContent, content: patchedContent }];
 
-        for (let i = 0; i < diffLines.length; i++) {
-            const line = diffLines[i];
-            const match = line.match(hunkPattern);
+    // Check the result in memory before anything reaches the workspace
+    const { verification, blocked } = verifyBeforeWrite(changes, patch, options);
+    if (blocked) {
+        return { success: false, filePath, hunks, verification, error: 'Rejected by speculative verification' };
+    }
 
-            if (match) {
-                const oldStart = parseInt(match[1], 10);
-                const oldCount = match[2] ? parseInt(match[2], 10) : 1;
+    // Write patched content back to file
+    await writeFileChanges(changes, resolveWriteMode(options.mode), patch.description);
+    const journalId = options.journal === false ? undefined : recordPatch(patch, changes)?.id;
 
-                // Validate that the context lines match
-                let hunkLine = i + 1;
-                let fileLine = oldStart - 1; // Convert to 0-indexed
+    logInfo(`✓ Patch applied successfully to ${path.basename(filePath)}`);
+    return { success: true, filePath, hunks, verification, journalId };
+}
 
-                while (hunkLine < diffLines.length && diffLines[hunkLine].startsWith(' ')) {
-                    const contextLine = diffLines[hunkLine].substring(1);
+/**
+ * Applies the patch to the base text it was generated against and merges
+ * the result with the current content.
+ * 
+ * @returns The merge result, or null if the patch carries no base or does not apply to it
+ */
+function mergeWithBase(currentContent: string, patch: Patch, options: ApplyPatchOptions): MergeResult | null {
+    if (patch.baseContent === undefined) {
+        return null;
+    }
 
-                    if (fileLine >= fileLines.length || fileLines[fileLine] !== contextLine) {
-                        logError(`Context mismatch at line ${fileLine + 1}`);
-                        return false;
-                    }
+    const baseContent = normalizeLineEndings(patch.baseContent);
+    const { content: patchedBase } = applyUnifiedDiff(baseContent, patch.diff, options);
+    if (patchedBase === null) {
+        logError('Patch does not apply to its own base text - cannot merge');
+        return null;
+    }
 
-                    hunkLine++;
-                    fileLine++;
-                }
+    return mergeThreeWay(baseContent, currentContent, patchedBase);
+}
+
+/**
+ * Validates that a patch can be applied without conflicts.
+ * 
+ * @param fileContent - Current file content
+ * @param patch - Patch to validate
+ * @param options - Optional offset/fuzz overrides
+ * @returns True if every hunk can be located in the file, false otherwise
+ */
+export function validatePatch(fileContent: string, patch: Patch, options: ApplyPatchOptions = {}): boolean {
+    try {
+        const { content, hunks } = applyUnifiedDiff(normalizeLineEndings(fileContent), patch.diff, options);
+
+        for (const hunk of hunks) {
+            if (hunk.status === 'rejected') {
+                logError(`Context mismatch for hunk ${hunk.index + 1} at line ${hunk.expectedLine}`);
             }
         }
 
-        return true;
+        return content !== null;
 
     } catch (error: any) {
         logError('Patch validation error', error);
@@ -103,43 +245,332 @@ export function validatePatch(fileContent: string, patch: Patch): boolean {
 }
 
 /**
- * Applies a unified-diff to file content.
+ * Computes the content a patch would produce, without writing anything.
+ * Hunks are located exactly as `applyPatch` would, including the clean
+ * three-way merge fallback, so a preview shows what approval will write.
+ * 
+ * @param filePath - Absolute path to the file
+ * @param patch - Patch to preview
+ * @param options - Optional apply options
+ * @returns The file changes the patch would make, or an error if it does not apply
+ */
+export function previewPatch(filePath: string, patch: Patch, options: ApplyPatchOptions = {}): { changes: FileChange[]; error?: string } {
+    const mode = resolveWriteMode(options.mode);
+
+    if (isMultiFileDiff(patch.diff)) {
+        const rootPath = options.rootPath ?? getAngularRoot() ?? path.dirname(filePath);
+        const { results, changes } = planMultiFilePatch(patch, rootPath, mode, options);
+        const failed = results.find(r => !r.success);
+
+        return failed
+            ? { changes: [], error: `${path.basename(failed.filePath)}: ${failed.error}` }
+            : { changes };
+    }
+
+    if (!fs.existsSync(filePath)) {
+        return { changes: [], error: 'File not found' };
+    }
+
+    const original = readFileContent(filePath, mode);
+    let { content } = applyUnifiedDiff(original, patch.diff, options);
+
+    if (content === null) {
+        const merge = mergeWithBase(original, patch, options);
+        if (!merge || !merge.clean) {
+            return { changes: [], error: merge ? `${merge.conflicts.length} merge conflict(s)` : 'Hunks rejected' };
+        }
+        content = renderMerge(merge);
+    }
+
+    return { changes: [{ filePath, original, content }] };
+}
+
+/**
+ * Runs the patched content through the in-memory ts-morph Project and compares
+ * diagnostics of the changed files and their dependents with the current ones.
+ * 
+ * @returns The verification result (if it ran) and whether the write must be blocked
+ */
+function verifyBeforeWrite(
+    changes: FileChange[],
+    patch: Patch,
+    options: ApplyPatchOptions
+): { verification?: VerificationResult; blocked: boolean } {
+    const mode = options.verification ?? vscode.workspace.getConfiguration('angularUpgrade')
+        .get<'reject' | 'flag' | 'off'>('speculativeVerification', 'reject');
+    const verification = mode === 'off' ? null : runSpeculativeCheck(changes, patch);
+
+    if (!verification) {
+        return { blocked: false };
+    }
+
+    logInfo(`Speculative check: ${verification.checkedFiles} files, ` +
+        `${verification.resolvedErrors} errors resolved, ${verification.newErrors.length} new errors`);
+
+    if (verification.passed) {
+        return { verification, blocked: false };
+    }
+
+    for (const error of verification.newErrors.slice(0, 5)) {
+        logError(`  New error: ${path.basename(error.filePath)}:${error.lineNumber} ${error.message}`);
+    }
+    if (verification.targetResolved === false) {
+        logError('  Targeted error is still reported after the patch');
+    }
+
+    if (mode === 'reject') {
+        logError('Patch rejected by speculative verification');
+        return { verification, blocked: true };
+    }
+
+    logInfo('⚠ Patch flagged by speculative verification - applying anyway');
+    return { verification, blocked: false };
+}
+
+/**
+ * Re-diagnoses changed files and their dependents with the changes applied in memory.
+ * 
+ * @returns The verification result, or null when no TypeScript project is loaded
+ */
+function runSpeculativeCheck(changes: FileChange[], patch: Patch): VerificationResult | null {
+    const angularAST = getAngularAST();
+    if (!angularAST?.getProject()) {
+        return null;
+    }
+
+    const speculative: Array<{ filePath: string; content: string | null }> = [];
+    for (const change of changes) {
+        if (change.renamedFrom) {
+            speculative.push({ filePath: change.renamedFrom, content: null });
+        }
+        speculative.push({ filePath: change.filePath, content: change.content });
+    }
+
+    return angularAST.verifyChanges(speculative, patch.targetConflict);
+}
+
+/**
+ * Scores a patch (e.g. one suggested by an LLM) from a speculative check, without writing.
+ * Patches that do not apply score 0, patches adding errors score low, and patches
+ * resolving the error they target without new errors score high.
+ * 
+ * @param patch - Patch to score
+ * @param options - Optional apply options
+ * @returns Confidence from 0 to 1, with the verification it is based on when one ran,
+ *          or why the patch does not apply
+ */
+export function assessPatch(
+    patch: Patch,
+    options: ApplyPatchOptions = {}
+): { confidence: number; verification?: VerificationResult; error?: string } {
+    const { changes, error } = previewPatch(patch.filePath, patch, options);
+    if (error) {
+        return { confidence: 0, error };
+    }
+
+    const verification = runSpeculativeCheck(changes, patch);
+    if (!verification) {
+        // Nothing to check against: applies cleanly, but still needs a human look
+        return { confidence: 0.5 };
+    }
+
+    let confidence: number;
+    if (verification.newErrors.length > 0) {
+        confidence = 0.1;
+    } else if (verification.targetResolved === false) {
+        confidence = 0.3;
+    } else if (verification.targetResolved) {
+        confidence = 0.9;
+    } else {
+        confidence = verification.resolvedErrors > 0 ? 0.7 : 0.5;
+    }
+
+    return { confidence, verification };
+}
+
+/**
+ * Resolves apply options, falling back to the extension settings.
+ */
+function resolveApplyOptions(options: ApplyPatchOptions): { maxOffset: number; fuzzFactor: number } {
+    const config = vscode.workspace.getConfiguration('angularUpgrade');
+
+    return {
+        maxOffset: options.maxOffset ?? config.get<number>('patchMaxOffset', 50),
+        fuzzFactor: options.fuzzFactor ?? config.get<number>('patchFuzzFactor', 2)
+    };
+}
+
+/**
+ * Applies a unified-diff to file content, in memory.
  * 
  * @param content - Original file content
  * @param diff - Unified-diff string
- * @returns Patched content or null on failure
+ * @param options - Offset/fuzz options
+ * @returns Patched content (null if any hunk was rejected) and per-hunk outcomes
  */
-function applyUnifiedDiff(content: string, diff: string): string | null {
-    try {
-        const lines = content.split('\n');
-        const diffLines = diff.split('\n');
+export function applyUnifiedDiff(
+    content: string,
+    diff: string,
+    options: ApplyPatchOptions
+): { content: string | null; hunks: HunkResult[] } {
+    const { maxOffset, fuzzFactor } = resolveApplyOptions(options);
+    // The final newline is kept aside: hunks with the no-newline marker add or remove it,
+    // other hunks leave it as it was (content created from an empty file gets one)
+    const hasFinalNewline = content === '' || content.endsWith('\n');
+    const lines = content === '' ? [] : (hasFinalNewline ? content.slice(0, -1) : content).split('\n');
+    let newlineAfter = hasFinalNewline;
+    // File content arrives as LF text; the diff may carry CRLF endings copied from the file
+    const hunks = parseUnifiedDiff(normalizeLineEndings(diff).split('\n'));
+    const results: HunkResult[] = [];
+    const output: string[] = [];
 
-        // Parse hunks from the diff
-        const hunks = parseUnifiedDiff(diffLines);
+    // Position in the original file up to which lines have been consumed
+    let cursor = 0;
+    // Offset of the previous hunk, carried forward like GNU patch
+    let lastOffset = 0;
 
-        // Apply hunks in reverse order (to preserve line numbers)
-        hunks.reverse();
+    for (let i = 0; i < hunks.length; i++) {
+        const hunk = hunks[i];
+        // A pure insertion ("-N,0") goes after line N rather than at it
+        const expectedIndex = hunk.oldCount === 0 ? hunk.oldStart : Math.max(hunk.oldStart - 1, 0);
+        const expectedLine = expectedIndex + 1;
+        const match = locateHunk(lines, hunk, expectedIndex + lastOffset, cursor, maxOffset, fuzzFactor,
+            hunk.endOfFile ? lines.length : undefined);
 
-        for (const hunk of hunks) {
-            // Apply removals and additions
-            const startLine = hunk.oldStart - 1; // Convert to 0-indexed
+        if (!match) {
+            results.push({
+                index: i,
+                status: 'rejected',
+                expectedLine,
+                offset: 0,
+                fuzz: 0,
+                reason: `Context not found within ${maxOffset} lines (fuzz ${fuzzFactor})`
+            });
+            continue;
+        }
 
-            // Remove old lines
-            if (hunk.removals.length > 0) {
-                lines.splice(startLine, hunk.removals.length);
-            }
+        const offset = match.position - match.fuzzShift - expectedIndex;
+        lastOffset = offset;
+
+        output.push(...lines.slice(cursor, match.position));
+        output.push(...match.newLines);
+        cursor = match.position + match.oldLines.length;
+        if (hunk.endOfFile) {
+            newlineAfter = hunk.endOfFile.newlineAfter;
+        }
+
+        results.push({
+            index: i,
+            status: offset === 0 && match.fuzz === 0 ? 'applied' : 'applied-with-offset',
+            expectedLine,
+            appliedLine: match.position - match.fuzzShift + 1,
+            offset,
+            fuzz: match.fuzz
+        });
+    }
+
+    output.push(...lines.slice(cursor));
+    if (newlineAfter && output.length > 0) {
+        output.push('');
+    }
+
+    const allApplied = results.length > 0 && results.every(r => r.status !== 'rejected');
+    return { content: allApplied ? output.join('\n') : null, hunks: results };
+}
+
+/**
+ * Searches for the position of a hunk in the file.
+ * Tries the expected position first, then alternates outward up to `maxOffset` lines,
+ * and repeats with increasing fuzz (dropping outer context lines) if needed.
+ * A hunk that reaches the end of the file must end exactly at `endOfFile` and keeps its trailing context.
+ * 
+ * @returns Match position (0-indexed), the old/new line slices used, the fuzz applied
+ *          and how many leading context lines the fuzz dropped
+ */
+function locateHunk(
+    fileLines: string[],
+    hunk: DiffHunk,
+    expected: number,
+    minPosition: number,
+    maxOffset: number,
+    fuzzFactor: number,
+    endOfFile?: number
+): { position: number; oldLines: string[]; newLines: string[]; fuzz: number; fuzzShift: number } | null {
+    const leadingContext = countContext(hunk.lines);
+    const trailingContext = endOfFile === undefined ? countContext([...hunk.lines].reverse()) : 0;
 
-            // Insert new lines
-            if (hunk.additions.length > 0) {
-                lines.splice(startLine, 0, ...hunk.additions);
+    for (let fuzz = 0; fuzz <= fuzzFactor; fuzz++) {
+        const dropLeading = Math.min(fuzz, leadingContext);
+        const dropTrailing = Math.min(fuzz, trailingContext);
+
+        // Never fuzz a hunk down to nothing but its changes when it had context to match
+        if (fuzz > 0 && dropLeading === 0 && dropTrailing === 0) {
+            break;
+        }
+
+        const trimmed = hunk.lines.slice(dropLeading, hunk.lines.length - dropTrailing);
+        const oldLines = trimmed.filter(l => l.type !== 'addition').map(l => l.text);
+        const newLines = trimmed.filter(l => l.type !== 'removal').map(l => l.text);
+        const start = expected + dropLeading;
+
+        for (let delta = 0; delta <= maxOffset; delta++) {
+            for (const candidate of delta === 0 ? [start] : [start - delta, start + delta]) {
+                if (candidate < minPosition || candidate + oldLines.length > fileLines.length) {
+                    continue;
+                }
+                if (endOfFile !== undefined && candidate + oldLines.length !== endOfFile) {
+                    continue;
+                }
+
+                if (linesMatchAt(fileLines, oldLines, candidate)) {
+                    return { position: candidate, oldLines, newLines, fuzz, fuzzShift: dropLeading };
+                }
             }
         }
+    }
 
-        return lines.join('\n');
+    return null;
+}
 
-    } catch (error: any) {
-        logError('Failed to apply unified-diff', error);
-        return null;
+/**
+ * Counts consecutive context lines at the start of a hunk.
+ */
+function countContext(lines: DiffLine[]): number {
+    let count = 0;
+    while (count < lines.length && lines[count].type === 'context') {
+        count++;
+    }
+    return count;
+}
+
+/**
+ * Checks whether `expected` matches the file lines starting at `position`.
+ * Trailing whitespace differences are tolerated.
+ */
+function linesMatchAt(fileLines: string[], expected: string[], position: number): boolean {
+    for (let i = 0; i < expected.length; i++) {
+        if (fileLines[position + i].trimEnd() !== expected[i].trimEnd()) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Writes a one-line summary per hunk to the output channel.
+ */
+function logHunkResults(hunks: HunkResult[]): void {
+    for (const hunk of hunks) {
+        const label = `Hunk #${hunk.index + 1}`;
+
+        if (hunk.status === 'applied') {
+            logInfo(`  ${label} applied at line ${hunk.appliedLine}`);
+        } else if (hunk.status === 'applied-with-offset') {
+            const fuzz = hunk.fuzz > 0 ? ` with fuzz ${hunk.fuzz}` : '';
+            logInfo(`  ${label} applied at line ${hunk.appliedLine} (offset ${hunk.offset} lines${fuzz})`);
+        } else {
+            logError(`  ${label} rejected at line ${hunk.expectedLine}: ${hunk.reason}`);
+        }
     }
 }
 
@@ -149,26 +580,18 @@ function applyUnifiedDiff(content: string, diff: string): string | null {
  * @param diffLines - Array of diff lines
  * @returns Array of parsed hunks
  */
-function parseUnifiedDiff(diffLines: string[]): Array<{
-    oldStart: number;
-    oldCount: number;
-    newStart: number;
-    newCount: number;
-    removals: string[];
-    additions: string[];
-}> {
-    const hunks: Array<any> = [];
-    const hunkPattern = /^@@ -(\d+),?(\d*) \+(\d+),?(\d*) @@/;
+function parseUnifiedDiff(diffLines: string[]): DiffHunk[] {
+    const hunks: DiffHunk[] = [];
 
-    let currentHunk: any = null;
+    let currentHunk: DiffHunk | null = null;
 
     for (const line of diffLines) {
-        const match = line.match(hunkPattern);
+        const match = line.match(HUNK_HEADER_PATTERN);
 
         if (match) {
             // Save previous hunk if exists
             if (currentHunk) {
-                hunks.push(currentHunk);
+                hunks.push(finalizeHunk(currentHunk));
             }
 
             // Start new hunk
@@ -177,35 +600,291 @@ function parseUnifiedDiff(diffLines: string[]): Array<{
                 oldCount: match[2] ? parseInt(match[2], 10) : 1,
                 newStart: parseInt(match[3], 10),
                 newCount: match[4] ? parseInt(match[4], 10) : 1,
-                removals: [],
-                additions: []
+                lines: []
             };
         } else if (currentHunk) {
-            if (line.startsWith('-') && !line.startsWith('---')) {
-                currentHunk.removals.push(line.substring(1));
-            } else if (line.startsWith('+') && !line.startsWith('+++')) {
-                currentHunk.additions.push(line.substring(1));
+            if (line.startsWith('\\')) {
+                // "\ No newline at end of file" applies to the line before it
+                const previous = currentHunk.lines[currentHunk.lines.length - 1];
+                if (previous) {
+                    previous.noEol = true;
+                }
+            } else if (line.startsWith('---') || line.startsWith('+++')) {
+                // File headers
+                continue;
+            } else if (line.startsWith('-')) {
+                currentHunk.lines.push({ type: 'removal', text: line.substring(1) });
+            } else if (line.startsWith('+')) {
+                currentHunk.lines.push({ type: 'addition', text: line.substring(1) });
+            } else if (line.startsWith(' ')) {
+                currentHunk.lines.push({ type: 'context', text: line.substring(1) });
+            } else if (line === '') {
+                // LLMs frequently strip the leading space from blank context lines
+                currentHunk.lines.push({ type: 'context', text: '' });
             }
-            // Ignore context lines (starting with space)
         }
     }
 
     // Save last hunk
     if (currentHunk) {
-        hunks.push(currentHunk);
+        hunks.push(finalizeHunk(currentHunk));
     }
 
     return hunks;
 }
 
+/**
+ * Drops trailing blank context lines picked up from the end of the diff text,
+ * and records whether the hunk reaches the end of the file.
+ */
+function finalizeHunk(hunk: DiffHunk): DiffHunk {
+    const expectedLines = hunk.oldCount + hunk.newCount;
+
+    while (hunk.lines.length > 0) {
+        const last = hunk.lines[hunk.lines.length - 1];
+        const counted = hunk.lines.reduce((n, l) => n + (l.type === 'context' ? 2 : 1), 0);
+
+        if (last.type === 'context' && last.text === '' && counted > expectedLines) {
+            hunk.lines.pop();
+        } else {
+            break;
+        }
+    }
+
+    // A marked line ends its side of the file, so the hunk runs to the end of both sides
+    if (hunk.lines.some(line => line.noEol)) {
+        const newSideEnd = hunk.lines.some(line => line.noEol && line.type !== 'removal');
+        hunk.endOfFile = { newlineAfter: !newSideEnd };
+    }
+
+    return hunk;
+}
+
+/**
+ * Splits a unified diff into one section per file.
+ * Understands `diff --git` headers, `---`/`+++` pairs, `/dev/null` for created
+ * and deleted files, and `rename from`/`rename to` lines.
+ * A diff without any file headers is returned as a single `modify` section.
+ * 
+ * @param diff - Unified-diff string, possibly touching several files
+ * @returns Array of per-file patches in diff order
+ */
+export function splitMultiFileDiff(diff: string): FilePatch[] {
+    diff = normalizeLineEndings(diff);
+    const lines = diff.split('\n');
+    const sections: Array<{ oldPath: string | null; newPath: string | null; explicit?: FilePatch['operation']; lines: string[]; hasFileHeader: boolean }> = [];
+    let current: typeof sections[number] | null = null;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const gitHeader = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+
+        if (gitHeader) {
+            current = { oldPath: gitHeader[1], newPath: gitHeader[2], lines: [line], hasFileHeader: false };
+            sections.push(current);
+        } else if (line.startsWith('--- ') && i + 1 < lines.length && lines[i + 1].startsWith('+++ ')) {
+            // A ---/+++ pair opens a new section unless it belongs to the preceding "diff --git" line
+            if (!current || current.hasFileHeader) {
+                current = { oldPath: null, newPath: null, lines: [], hasFileHeader: false };
+                sections.push(current);
+            }
+
+            current.oldPath = parseHeaderPath(line.substring(4));
+            current.newPath = parseHeaderPath(lines[i + 1].substring(4));
+            current.hasFileHeader = true;
+            current.lines.push(line, lines[i + 1]);
+            i++;
+        } else if (current) {
+            if (line.startsWith('new file mode')) {
+                current.explicit = 'create';
+            } else if (line.startsWith('deleted file mode')) {
+                current.explicit = 'delete';
+            } else if (line.startsWith('rename from ')) {
+                current.explicit = 'rename';
+                current.oldPath = line.substring('rename from '.length);
+            } else if (line.startsWith('rename to ')) {
+                current.explicit = 'rename';
+                current.newPath = line.substring('rename to '.length);
+            }
+            current.lines.push(line);
+        }
+    }
+
+    if (sections.length === 0) {
+        return [{ operation: 'modify', oldPath: null, newPath: null, diff }];
+    }
+
+    return sections.map(section => {
+        let operation: FilePatch['operation'] = section.explicit || 'modify';
+        if (section.oldPath === null) {
+            operation = 'create';
+        } else if (section.newPath === null) {
+            operation = 'delete';
+        } else if (operation === 'modify' && section.oldPath !== section.newPath) {
+            operation = 'rename';
+        }
+
+        return {
+            operation,
+            oldPath: operation === 'create' ? null : section.oldPath,
+            newPath: operation === 'delete' ? null : section.newPath,
+            diff: section.lines.join('\n')
+        };
+    });
+}
+
+/**
+ * Checks whether a diff needs the multi-file code path:
+ * more than one file, or any create/delete/rename operation.
+ */
+export function isMultiFileDiff(diff: string): boolean {
+    const files = splitMultiFileDiff(diff);
+    return files.length > 1 || files.some(f => f.operation !== 'modify');
+}
+
+/**
+ * Extracts the path from a `---`/`+++` header, dropping timestamps and a/ b/ prefixes.
+ * Returns null for /dev/null.
+ */
+function parseHeaderPath(header: string): string | null {
+    const filePath = header.split('\t')[0].trim();
+
+    if (filePath === '/dev/null') {
+        return null;
+    }
+
+    return filePath.replace(/^[ab]\//, '');
+}
+
+/**
+ * Applies every file section of a multi-file diff as one atomic group.
+ * All sections are patched in memory first; nothing is written unless every
+ * section applies, and the writes are committed as one group.
+ * 
+ * @param patch - Patch whose diff touches one or more files
+ * @param options - Apply options; `rootPath` resolves relative diff paths
+ * @returns Promise resolving to a group result with one entry per file
+ */
+export async function applyMultiFilePatch(patch: Patch, options: ApplyPatchOptions = {}): Promise<PatchResult> {
+    const rootPath = options.rootPath ?? getAngularRoot() ?? process.cwd();
+    const mode = resolveWriteMode(options.mode);
+
+    logInfo(`Applying multi-file patch (${splitMultiFileDiff(patch.diff).length} files)`);
+
+    const { results, changes, journalFiles } = planMultiFilePatch(patch, rootPath, mode, options);
+
+    for (const result of results) {
+        logInfo(`  ${result.success ? '✓' : '✗'} ${path.relative(rootPath, result.filePath)}${result.error ? ` - ${result.error}` : ''}`);
+        logHunkResults(result.hunks);
+    }
+
+    const failed = results.filter(r => !r.success);
+    if (failed.length > 0) {
+        logError(`Multi-file patch rejected: ${failed.length} of ${results.length} files failed - no files changed`);
+        return { success: false, filePath: patch.filePath, hunks: [], files: results, error: `${failed.length} of ${results.length} files failed` };
+    }
+
+    const { verification, blocked } = verifyBeforeWrite(changes, patch, options);
+    if (blocked) {
+        return { success: false, filePath: patch.filePath, hunks: [], files: results, verification, error: 'Rejected by speculative verification' };
+    }
+
+    try {
+        await writeFileChanges(changes, mode, patch.description);
+    } catch (error: any) {
+        logError('Multi-file patch failed while writing', error);
+        return { success: false, filePath: patch.filePath, hunks: [], files: results, verification, error: error.message };
+    }
+
+    const journalId = options.journal === false ? undefined : recordPatch(patch, journalFiles, rootPath)?.id;
+
+    logInfo(`✓ Multi-file patch applied to ${results.length} files`);
+    return { success: true, filePath: patch.filePath, hunks: [], files: results, verification, journalId };
+}
+
+/**
+ * Patches every file section of a multi-file diff in memory.
+ * 
+ * @returns Per-file results, the changes to commit and the records for the patch journal
+ */
+function planMultiFilePatch(
+    patch: Patch,
+    rootPath: string,
+    mode: WriteMode,
+    options: ApplyPatchOptions
+): {
+    results: PatchResult[];
+    changes: FileChange[];
+    journalFiles: Array<{ filePath: string; original: string | null; content: string | null }>;
+} {
+    const resolve = (filePath: string) => path.resolve(rootPath, filePath);
+    const changes: FileChange[] = [];
+    const journalFiles: Array<{ filePath: string; original: string | null; content: string | null }> = [];
+    const results: PatchResult[] = [];
+
+    for (const filePatch of splitMultiFileDiff(patch.diff)) {
+        const sourcePath = filePatch.oldPath ? resolve(filePatch.oldPath) : null;
+        const targetPath = filePatch.newPath ? resolve(filePatch.newPath) : null;
+        const displayPath = (targetPath || sourcePath)!;
+
+        // Header paths come from the diff, which may not be ours; nothing outside the project is touched
+        const outside = [sourcePath, targetPath].find(p => p !== null && !isInsideRoot(p, rootPath));
+        if (outside) {
+            results.push({ success: false, filePath: displayPath, hunks: [], error: `Outside the project: ${outside}` });
+            continue;
+        }
+        if (sourcePath && !fs.existsSync(sourcePath)) {
+            results.push({ success: false, filePath: displayPath, hunks: [], error: `File not found: ${sourcePath}` });
+            continue;
+        }
+        if (targetPath && targetPath !== sourcePath && fs.existsSync(targetPath)) {
+            results.push({ success: false, filePath: displayPath, hunks: [], error: `File already exists: ${targetPath}` });
+            continue;
+        }
+
+        const original = sourcePath ? readFileContent(sourcePath, mode) : '';
+        const hasHunks = parseUnifiedDiff(filePatch.diff.split('\n')).length > 0;
+        const { content, hunks } = hasHunks
+            ? applyUnifiedDiff(original, filePatch.diff, options)
+            : { content: filePatch.operation === 'modify' ? null : original, hunks: [] };
+
+        if (content === null) {
+            results.push({ success: false, filePath: displayPath, hunks, error: hasHunks ? 'Hunks rejected' : 'Patch contains no hunks' });
+            continue;
+        }
+        if (filePatch.operation === 'delete' && content.trim() !== '') {
+            results.push({ success: false, filePath: displayPath, hunks, error: 'Deletion diff does not cover the whole file' });
+            continue;
+        }
+
+        results.push({ success: true, filePath: displayPath, hunks });
+        changes.push({
+            filePath: displayPath,
+            original,
+            content: filePatch.operation === 'delete' ? null : content,
+            renamedFrom: filePatch.operation === 'rename' ? sourcePath! : undefined
+        });
+
+        if (sourcePath && sourcePath !== targetPath) {
+            journalFiles.push({ filePath: sourcePath, original, content: null });
+        }
+        if (targetPath) {
+            journalFiles.push({ filePath: targetPath, original: sourcePath === targetPath ? original : null, content });
+        }
+    }
+
+    return { results, changes, journalFiles };
+}
+
 /**
  * Reverts a previously applied patch.
  * 
  * @param filePath - Path to the file
  * @param patch - Patch to revert
+ * @param options - Optional apply options (e.g. `rootPath` for multi-file patches)
  * @returns Promise resolving to true on success
  */
-export async function revertPatch(filePath: string, patch: Patch): Promise<boolean> {
+export async function revertPatch(filePath: string, patch: Patch, options: ApplyPatchOptions = {}): Promise<boolean> {
     logInfo(`Reverting patch from: ${filePath}`);
 
     try {
@@ -214,10 +893,13 @@ export async function revertPatch(filePath: string, patch: Patch): Promise<boole
 
         const reversePatch: Patch = {
             ...patch,
-            diff: reverseDiff
+            diff: reverseDiff,
+            targetConflict: undefined
         };
 
-        return await applyPatch(filePath, reversePatch);
+        // Undoing a patch must not be blocked by the errors it brings back, nor journaled as a new fix
+        const result = await applyPatch(filePath, reversePatch, { journal: false, ...options, verification: 'off' });
+        return result.success;
 
     } catch (error: any) {
         logError(`Failed to revert patch from ${filePath}`, error);
@@ -231,12 +913,30 @@ export async function revertPatch(filePath: string, patch: Patch): Promise<boole
  * @param diff - Original unified-diff
  * @returns Reversed unified-diff
  */
-function createReverseDiff(diff: string): string {
+export function createReverseDiff(diff: string): string {
     const lines = diff.split('\n');
     const reversedLines: string[] = [];
 
-    for (const line of lines) {
-        if (line.startsWith('+') && !line.startsWith('+++')) {
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const gitHeader = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+
+        if (gitHeader) {
+            reversedLines.push(`diff --git a/${gitHeader[2]} b/${gitHeader[1]}`);
+        } else if (line.startsWith('--- ') && i + 1 < lines.length && lines[i + 1].startsWith('+++ ')) {
+            // Swap file headers so creations become deletions and renames run backwards
+            reversedLines.push(`--- ${swapHeaderPrefix(lines[i + 1].substring(4), 'a/')}`);
+            reversedLines.push(`+++ ${swapHeaderPrefix(line.substring(4), 'b/')}`);
+            i++;
+        } else if (line.startsWith('new file mode')) {
+            reversedLines.push(line.replace('new file mode', 'deleted file mode'));
+        } else if (line.startsWith('deleted file mode')) {
+            reversedLines.push(line.replace('deleted file mode', 'new file mode'));
+        } else if (line.startsWith('rename from ')) {
+            reversedLines.push('rename to ' + line.substring('rename from '.length));
+        } else if (line.startsWith('rename to ')) {
+            reversedLines.push('rename from ' + line.substring('rename to '.length));
+        } else if (line.startsWith('+') && !line.startsWith('+++')) {
             reversedLines.push('-' + line.substring(1));
         } else if (line.startsWith('-') && !line.startsWith('---')) {
             reversedLines.push('+' + line.substring(1));
@@ -254,6 +954,16 @@ function createReverseDiff(diff: string): string {
     return reversedLines.join('\n');
 }
 
+/**
+ * Re-prefixes a header path with a/ or b/ when swapping header sides.
+ */
+function swapHeaderPrefix(header: string, prefix: 'a/' | 'b/'): string {
+    if (header.startsWith('/dev/null')) {
+        return header;
+    }
+    return header.replace(/^[ab]\//, prefix);
+}
+
 /**
  * Applies multiple patches in sequence.
  * If any patch fails, all previous patches are reverted.
@@ -268,17 +978,17 @@ export async function applyPatchBatch(
 
     logInfo(`Applying ${patches.length} patches...`);
 
-    const appliedPatches: Array<{ filePath: string; patch: Patch }> = [];
+    const appliedPatches: Array<{ filePath: string; patch: Patch; journalId?: string }> = [];
 
     try {
         for (const item of patches) {
-            const success = await applyPatch(item.filePath, item.patch);
+            const result = await applyPatch(item.filePath, item.patch);
 
-            if (!success) {
-                throw new Error(`Failed to apply patch to ${item.filePath}`);
+            if (!result.success) {
+                throw new Error(`Failed to apply patch to ${item.filePath}: ${result.error}`);
             }
 
-            appliedPatches.push(item);
+            appliedPatches.push({ ...item, journalId: result.journalId });
         }
 
         logInfo(`✓ Successfully applied all ${patches.length} patches`);
@@ -286,8 +996,13 @@ export async function applyPatchBatch(
     } catch (error: any) {
         logError('Patch batch failed - rolling back', error);
 
-        // Rollback all applied patches
-        for (const item of appliedPatches.reverse()) {
+        // Rollback through the journal (hash-checked) where possible, newest first
+        const journalIds = appliedPatches.filter(item => item.journalId).map(item => item.journalId!);
+        if (journalIds.length > 0) {
+            await revertJournalEntries(journalIds);
+        }
+
+        for (const item of appliedPatches.filter(item => !item.journalId).reverse()) {
             await revertPatch(item.filePath, item.patch);
         }
 
@@ -296,49 +1011,188 @@ export async function applyPatchBatch(
 }
 
 /**
- * Creates a simple patch from old and new content.
- * Useful for generating patches programmatically.
+ * Marker appended to a final line that has no trailing newline, so that
+ * "x" and "x\n" compare as different lines in the diff.
+ */
+const NO_EOL_MARKER = '\u0000no-eol';
+
+/**
+ * Creates a minimal patch from old and new content.
+ * Uses a Myers line diff and emits one hunk per group of nearby changes,
+ * so the result is reviewable and can be applied with `git apply`.
  * 
  * @param filePath - File path for the patch
  * @param oldContent - Original content
  * @param newContent - Modified content
  * @param description - Description of changes
+ * @param contextLines - Number of unchanged lines to show around each change (default: 3)
  * @returns Patch object
  */
 export function createPatch(
     filePath: string,
     oldContent: string,
     newContent: string,
-    description: string
+    description: string,
+    contextLines: number = 3
 ): Patch {
-    // Simple line-by-line diff
-    const oldLines = oldContent.split('\n');
-    const newLines = newContent.split('\n');
+    // Diffs are always LF; the file's own line endings are restored when the patch is written
+    oldContent = normalizeLineEndings(oldContent);
+    newContent = normalizeLineEndings(newContent);
+    const headerPath = toDiffHeaderPath(filePath);
+    let diff = `--- a/${headerPath}\n+++ b/${headerPath}\n`;
+
+    for (const hunk of buildHunks(splitForDiff(oldContent), splitForDiff(newContent), contextLines)) {
+        diff += hunk;
+    }
+
+    return {
+        diff,
+        description,
+        filePath,
+        source: 'auto',
+        baseContent: oldContent
+    };
+}
+
+/**
+ * Splits content into lines for diffing. A trailing newline terminates the
+ * last line rather than starting an empty one; a missing one is marked.
+ */
+function splitForDiff(content: string): string[] {
+    if (content === '') {
+        return [];
+    }
+
+    const lines = content.split('\n');
+
+    if (lines[lines.length - 1] === '') {
+        lines.pop();
+    } else {
+        lines[lines.length - 1] += NO_EOL_MARKER;
+    }
+
+    return lines;
+}
+
+/**
+ * Whether a path lies inside a directory, once resolved (the directory itself does not count).
+ *
+ * @param filePath - Absolute path, or a path relative to `rootPath`
+ * @param rootPath - Project root
+ */
+export function isInsideRoot(filePath: string, rootPath: string): boolean {
+    const relative = path.relative(rootPath, path.resolve(rootPath, filePath));
+    return relative !== '' && relative.split(/[\\/]/)[0] !== '..' && !path.isAbsolute(relative);
+}
 
-    let diff = `--- a/${filePath}\n+++ b/${filePath}\n`;
-    diff += `@@ -1,${oldLines.length} +1,${newLines.length} @@\n`;
+/**
+ * Converts a file path into the repository-relative form used in diff headers.
+ */
+function toDiffHeaderPath(filePath: string): string {
+    const root = getAngularRoot();
 
-    const maxLines = Math.max(oldLines.length, newLines.length);
+    if (root && path.isAbsolute(filePath)) {
+        const relative = path.relative(root, filePath);
+        if (!relative.startsWith('..')) {
+            filePath = relative;
+        }
+    }
 
-    for (let i = 0; i < maxLines; i++) {
-        if (i < oldLines.length && i < newLines.length) {
-            if (oldLines[i] !== newLines[i]) {
-                diff += `-${oldLines[i]}\n`;
-                diff += `+${newLines[i]}\n`;
+    return filePath.split(path.sep).join('/');
+}
+
+/**
+ * Groups the edit script into unified-diff hunks.
+ * Changes separated by at most `2 * contextLines` unchanged lines share a hunk.
+ * 
+ * @returns Hunk texts, each starting with its @@ header and ending with a newline
+ */
+function buildHunks(oldLines: string[], newLines: string[], contextLines: number): string[] {
+    const ops = computeLineDiff(oldLines, newLines);
+    const hunks: string[] = [];
+
+    let i = 0;
+    while (i < ops.length) {
+        // Find the next change
+        while (i < ops.length && ops[i].type === 'equal') {
+            i++;
+        }
+        if (i >= ops.length) {
+            break;
+        }
+
+        const start = Math.max(0, i - contextLines);
+        let end = i;
+
+        // Extend the hunk while the following change is close enough to share context
+        while (end < ops.length) {
+            while (end < ops.length && ops[end].type !== 'equal') {
+                end++;
+            }
+
+            let gap = 0;
+            while (end + gap < ops.length && ops[end + gap].type === 'equal') {
+                gap++;
+            }
+
+            if (end + gap < ops.length && gap <= 2 * contextLines) {
+                end += gap;
             } else {
-                diff += ` ${oldLines[i]}\n`;
+                end = Math.min(ops.length, end + contextLines);
+                break;
             }
-        } else if (i < oldLines.length) {
-            diff += `-${oldLines[i]}\n`;
-        } else if (i < newLines.length) {
-            diff += `+${newLines[i]}\n`;
         }
+
+        hunks.push(formatHunk(ops.slice(start, end)));
+        i = end;
     }
 
-    return {
-        diff,
-        description,
-        filePath,
-        source: 'auto'
+    return hunks;
+}
+
+/**
+ * Formats a slice of the edit script as a single hunk.
+ * Within each run of changes, removals are emitted before additions.
+ */
+function formatHunk(ops: DiffOp[]): string {
+    const first = ops[0];
+    const oldCount = ops.filter(op => op.type !== 'insert').length;
+    const newCount = ops.filter(op => op.type !== 'delete').length;
+    // Empty ranges point at the line before the change, as in GNU diff
+    const oldStart = oldCount === 0 ? first.oldIndex : first.oldIndex + 1;
+    const newStart = newCount === 0 ? first.newIndex : first.newIndex + 1;
+
+    let text = `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@\n`;
+    let removals: string[] = [];
+    let additions: string[] = [];
+
+    const flush = () => {
+        text += removals.join('') + additions.join('');
+        removals = [];
+        additions = [];
     };
+
+    for (const op of ops) {
+        if (op.type === 'equal') {
+            flush();
+            text += formatDiffLine(' ', op.text);
+        } else if (op.type === 'delete') {
+            removals.push(formatDiffLine('-', op.text));
+        } else {
+            additions.push(formatDiffLine('+', op.text));
+        }
+    }
+    flush();
+
+    return text;
+}
+
+/**
+ * Formats one diff line, expanding the no-EOL marker into git's "\ No newline" line.
+ */
+function formatDiffLine(prefix: ' ' | '-' | '+', text: string): string {
+    if (text.endsWith(NO_EOL_MARKER)) {
+        return `${prefix}${text.slice(0, -NO_EOL_MARKER.length)}\n\\ No newline at end of file\n`;
+    }
+    return `${prefix}${text}\n`;
 }
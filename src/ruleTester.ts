@@ -0,0 +1,231 @@
+// ruleTester.ts
+// This module runs pattern fixes against before/after fixtures, so rule authors can
+// prove a fix works before it meets a real project. Each fixture is a directory with
+// a `fixture.json` (the fix id and a synthetic diagnostic), an `input.*` source file
+// and the `expected.*` result. Fixtures are applied to temporary copies only.
+//
+// Built-in fixtures live in `fixtures/rules` inside the extension; project fixtures
+// for user rules live in `.angular-upgrade/fixtures` next to `.angular-upgrade/rules`.
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ErrorClusterer } from './errorClustering/ErrorClusterer';
+import { PatternMatcher } from './errorClustering/PatternMatcher';
+import { RULES_DIRECTORY } from './errorClustering/RuleLoader';
+import { applyPatch, createPatch } from './patcher';
+import { readFileContent } from './workspaceWriter';
+import { getAngularAST } from './initializeWorkspace';
+import { logInfo, logError, logSection } from './logger';
+import { Conflict } from './types';
+
+/** Project fixture directory, relative to the Angular project root */
+export const FIXTURES_DIRECTORY = path.join('.angular-upgrade', 'fixtures');
+
+const BUILTIN_FIXTURES_PATH = path.join(__dirname, '..', 'fixtures', 'rules');
+
+/**
+ * Content of a `fixture.json` file.
+ */
+export interface RuleFixture {
+    /** Id of the pattern fix expected to handle the diagnostic */
+    fix: string;
+    description?: string;
+    /** Path of the input file inside the temporary project (default: the input file's name) */
+    file?: string;
+    /** Synthetic diagnostic reported for the input file */
+    diagnostic: {
+        message: string;
+        code?: number;
+        /** 1-based line the diagnostic points at */
+        line: number;
+    };
+}
+
+/**
+ * Outcome of one fixture.
+ */
+export interface RuleTestResult {
+    /** Fixture directory, relative to the fixture root it was found in */
+    name: string;
+    /** Where the fixture came from */
+    origin: 'built-in' | 'project';
+    fix: string;
+    passed: boolean;
+    /** Why the fixture failed */
+    error?: string;
+    /** Unified diff from the expected output to the actual one, when they differ */
+    diff?: string;
+}
+
+/**
+ * Runs every built-in fixture and, when a project root is given, the project's own fixtures.
+ *
+ * @param rootPath - Angular project root whose rules and fixtures are included, if any
+ * @returns Promise resolving to one result per fixture
+ */
+export async function runRuleTests(rootPath: string | null): Promise<RuleTestResult[]> {
+    logSection('Testing Fix Rules');
+
+    const fixtureRoots: Array<{ directory: string; origin: RuleTestResult['origin'] }> = [
+        { directory: BUILTIN_FIXTURES_PATH, origin: 'built-in' }
+    ];
+    if (rootPath) {
+        fixtureRoots.push({ directory: path.join(rootPath, FIXTURES_DIRECTORY), origin: 'project' });
+    }
+
+    const results: RuleTestResult[] = [];
+    for (const { directory, origin } of fixtureRoots) {
+        for (const fixtureDirectory of findFixtureDirectories(directory)) {
+            const name = path.relative(directory, fixtureDirectory).split(path.sep).join('/');
+            const result = await runFixture(fixtureDirectory, name, origin, rootPath);
+
+            if (result.passed) {
+                logInfo(`✓ ${name} (${result.fix})`);
+            } else {
+                logError(`✗ ${name} (${result.fix}): ${result.error}`);
+            }
+            results.push(result);
+        }
+    }
+
+    const failed = results.filter(r => !r.passed).length;
+    logInfo(`${results.length - failed} of ${results.length} fixture(s) passed`);
+    return results;
+}
+
+/**
+ * Formats results as plain text: one line per fixture, then the diffs of mismatches.
+ */
+export function formatRuleTestReport(results: RuleTestResult[]): string {
+    const lines = results.map(r =>
+        `${r.passed ? 'PASS' : 'FAIL'} ${r.origin === 'project' ? 'project/' : ''}${r.name} (${r.fix})${r.error ? ` - ${r.error}` : ''}`);
+
+    for (const result of results.filter(r => r.diff)) {
+        lines.push('', `${result.name}: expected (-) vs actual (+)`, result.diff!.trimEnd());
+    }
+
+    const failed = results.filter(r => !r.passed).length;
+    lines.push('', `${results.length - failed} passed, ${failed} failed`);
+    return lines.join('\n');
+}
+
+/**
+ * Returns every directory below `directory` that holds a `fixture.json`, sorted by path.
+ */
+function findFixtureDirectories(directory: string): string[] {
+    if (!fs.existsSync(directory)) {
+        return [];
+    }
+
+    const found: string[] = [];
+    if (fs.existsSync(path.join(directory, 'fixture.json'))) {
+        found.push(directory);
+    }
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+        if (entry.isDirectory()) {
+            found.push(...findFixtureDirectories(path.join(directory, entry.name)));
+        }
+    }
+    return found.sort();
+}
+
+/**
+ * Copies a fixture's input into a temporary project, runs the matching fix through
+ * `applyPatch` and compares the file with the expected output.
+ */
+async function runFixture(
+    fixtureDirectory: string,
+    name: string,
+    origin: RuleTestResult['origin'],
+    rootPath: string | null
+): Promise<RuleTestResult> {
+    let fixture: RuleFixture;
+    try {
+        fixture = JSON.parse(fs.readFileSync(path.join(fixtureDirectory, 'fixture.json'), 'utf-8'));
+    } catch (error: any) {
+        return { name, origin, fix: '?', passed: false, error: `fixture.json could not be parsed: ${error.message}` };
+    }
+
+    const fail = (error: string, diff?: string): RuleTestResult =>
+        ({ name, origin, fix: fixture.fix ?? '?', passed: false, error, diff });
+
+    if (typeof fixture.fix !== 'string' || typeof fixture.diagnostic?.message !== 'string' ||
+        typeof fixture.diagnostic.line !== 'number') {
+        return fail('fixture.json needs "fix", "diagnostic.message" and "diagnostic.line"');
+    }
+
+    const entries = fs.readdirSync(fixtureDirectory);
+    const inputName = entries.find(entry => /^input\./.test(entry));
+    const expectedName = entries.find(entry => /^expected\./.test(entry));
+    if (!inputName || !expectedName) {
+        return fail('fixture needs an input.* and an expected.* file');
+    }
+
+    const tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'angular-upgrade-fixture-'));
+    const filePath = path.join(tempRoot, fixture.file ?? inputName);
+
+    try {
+        // Project rules come along, so their file globs see the same relative paths
+        const rulesDirectory = rootPath ? path.join(rootPath, RULES_DIRECTORY) : null;
+        const withRules = rulesDirectory !== null && fs.existsSync(rulesDirectory);
+        if (withRules) {
+            fs.cpSync(rulesDirectory!, path.join(tempRoot, RULES_DIRECTORY), { recursive: true });
+        }
+
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.copyFileSync(path.join(fixtureDirectory, inputName), filePath);
+
+        const conflict: Conflict = {
+            filePath,
+            lineNumber: fixture.diagnostic.line,
+            message: fixture.diagnostic.message,
+            severity: 'error',
+            code: fixture.diagnostic.code
+        };
+        const [cluster] = new ErrorClusterer().clusterErrors([conflict]);
+
+        // Every rule pack is active, so a fixture does not depend on the project's versions
+        const matcher = new PatternMatcher(withRules ? tempRoot : undefined);
+        const pattern = matcher.matchPattern(cluster);
+        if (!pattern) {
+            return fail('no fix matches the diagnostic');
+        }
+        if (pattern.id !== fixture.fix) {
+            return fail(`the diagnostic is matched by "${pattern.id}" first`);
+        }
+
+        const patches = matcher.generateFixes(cluster, pattern);
+        if (patches.length === 0) {
+            return fail('the fix produced no patch');
+        }
+
+        for (const patch of patches) {
+            const result = await applyPatch(patch.filePath, patch, {
+                mode: 'disk',
+                rootPath: tempRoot,
+                verification: 'off',
+                journal: false
+            });
+            if (!result.success) {
+                return fail(`the patch did not apply: ${result.error}`);
+            }
+        }
+
+        const expected = readFileContent(path.join(fixtureDirectory, expectedName), 'disk');
+        const actual = readFileContent(filePath, 'disk');
+        if (actual !== expected) {
+            const diff = createPatch(`${name}/${expectedName}`, expected, actual, name).diff;
+            return fail('the result differs from the expected output', diff);
+        }
+
+        return { name, origin, fix: fixture.fix, passed: true };
+
+    } catch (error: any) {
+        return fail(error.message);
+    } finally {
+        // Writes add the temporary file to the migration's project; take it out again
+        getAngularAST()?.updateSourceFiles([{ filePath, content: null }]);
+        fs.rmSync(tempRoot, { recursive: true, force: true });
+    }
+}
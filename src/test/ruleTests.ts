@@ -0,0 +1,24 @@
+// ruleTests.ts
+// Test-host entry point for running the fix rule fixtures headlessly.
+// VS Code loads this module through `--extensionTestsPath` and calls `run()`;
+// the fixtures of the Angular project in the opened folder are included.
+
+import * as vscode from 'vscode';
+import { findAngularProjectRoot } from '../projectLocator';
+import { runRuleTests, formatRuleTestReport } from '../ruleTester';
+
+/**
+ * Runs all fixtures and rejects when any of them fails, which fails the test run.
+ */
+export async function run(): Promise<void> {
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const rootPath = workspaceRoot ? findAngularProjectRoot(workspaceRoot) : null;
+
+    const results = await runRuleTests(rootPath);
+    console.log(formatRuleTestReport(results));
+
+    const failed = results.filter(r => !r.passed).length;
+    if (failed > 0) {
+        throw new Error(`${failed} rule fixture(s) failed`);
+    }
+}
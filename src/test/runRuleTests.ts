@@ -0,0 +1,25 @@
+// runRuleTests.ts
+// Command-line launcher for the fix rule fixtures (`npm run test:rules [project folder]`).
+// Downloads a VS Code build if needed and runs `ruleTests.ts` inside it without a window.
+
+import * as path from 'path';
+import { runTests } from '@vscode/test-electron';
+
+async function main(): Promise<void> {
+    const extensionDevelopmentPath = path.resolve(__dirname, '..', '..');
+    const extensionTestsPath = path.resolve(__dirname, 'ruleTests');
+    const projectFolder = path.resolve(process.argv[2] ?? process.cwd());
+
+    try {
+        await runTests({
+            extensionDevelopmentPath,
+            extensionTestsPath,
+            launchArgs: [projectFolder, '--disable-extensions']
+        });
+    } catch (error) {
+        console.error('Rule fixtures failed:', error);
+        process.exit(1);
+    }
+}
+
+main();
@@ -0,0 +1,60 @@
+// angularAST.test.ts
+// Files patches touch are only added to the programs whose tsconfig compiles them.
+
+import './vscodeStub';
+import { test, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AngularAST } from '../../ast/AngularAST';
+
+let rootPath: string;
+let ast: AngularAST;
+
+/**
+ * The standard Angular layout: the app program excludes spec files, and only the
+ * spec program has the test globals.
+ */
+function writeWorkspace(root: string): void {
+    const files: Record<string, unknown> = {
+        'tsconfig.json': { files: [], references: [{ path: './tsconfig.app.json' }, { path: './tsconfig.spec.json' }] },
+        'tsconfig.app.json': { compilerOptions: { strict: true, types: [] }, include: ['src/**/*.ts'], exclude: ['src/**/*.spec.ts', 'src/testing.d.ts'] },
+        'tsconfig.spec.json': { compilerOptions: { strict: true, types: [] }, include: ['src/**/*.spec.ts', 'src/**/*.d.ts'] },
+        'src/main.ts': 'export const answer = 42;\n',
+        'src/main.spec.ts': 'import { answer } from \'./main\';\n\ndescribe(\'main\', () => answer);\n',
+        'src/testing.d.ts': 'declare function describe(name: string, body: () => unknown): void;\n'
+    };
+
+    for (const [name, content] of Object.entries(files)) {
+        fs.mkdirSync(path.dirname(path.join(root, name)), { recursive: true });
+        fs.writeFileSync(path.join(root, name), typeof content === 'string' ? content : JSON.stringify(content));
+    }
+}
+
+beforeEach(async () => {
+    rootPath = fs.mkdtempSync(path.join(os.tmpdir(), 'angular-ast-'));
+    writeWorkspace(rootPath);
+    ast = new AngularAST(rootPath);
+    assert.equal(await ast.initialize(), true);
+});
+
+test('a spec file edit is not checked in the app program', () => {
+    const specPath = path.join(rootPath, 'src/main.spec.ts');
+    const change = { filePath: specPath, content: fs.readFileSync(specPath, 'utf-8') + '\ndescribe(\'more\', () => answer + 1);\n' };
+
+    const verification = ast.verifyChanges([change]);
+    assert.equal(verification.passed, true, verification.newErrors.map(e => `${e.program} ${e.message}`).join('\n'));
+
+    ast.updateSourceFiles([change]);
+    assert.deepEqual(ast.getDiagnostics(), []);
+});
+
+test('a created file joins the programs that include it', () => {
+    const created = { filePath: path.join(rootPath, 'src/created.ts'), content: 'export const broken: number = \'no\';\n' };
+
+    const verification = ast.verifyChanges([created]);
+
+    assert.equal(verification.passed, false);
+    assert.deepEqual(verification.newErrors.map(e => e.program), ['tsconfig.app.json']);
+});
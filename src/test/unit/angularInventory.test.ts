@@ -0,0 +1,47 @@
+// angularInventory.test.ts
+// Artifacts are read from decorators and signal members, and can be looked up by template name.
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Project } from 'ts-morph';
+import { collectArtifacts, findArtifactByName, findArtifactBySelector } from '../../ast/angularInventory';
+
+const SOURCE = `
+import { Component, Pipe, input, model, output } from '@angular/core';
+import { modelFrom } from './models';
+
+@Component({ selector: 'app-user-card, [appUserCard]', standalone: true, template: '' })
+export class UserCard {
+    user = input.required<string>();
+    checked = model(false);
+    size = model.required<number>({ alias: 'cardSize' });
+    selected = output<string>();
+    modelled = modelFrom(1);
+    modelValue = modelFrom(2);
+}
+
+@Pipe({ name: 'initials' })
+export class InitialsPipe {}
+`;
+
+const inventory = () => {
+    const sourceFile = new Project({ useInMemoryFileSystem: true }).createSourceFile('/app/user-card.ts', SOURCE);
+    return { generatedAt: '', artifacts: collectArtifacts(sourceFile) };
+};
+
+test('only model() and model.required() add a change output', () => {
+    const [card] = inventory().artifacts;
+
+    assert.deepEqual(card.inputs, ['user', 'checked', 'cardSize']);
+    assert.deepEqual(card.outputs, ['checkedChange', 'cardSizeChange', 'selected']);
+});
+
+test('artifacts are found by selector, class name and pipe name', () => {
+    const index = inventory();
+
+    assert.equal(findArtifactBySelector(index, 'app-user-card')?.name, 'UserCard');
+    assert.equal(findArtifactBySelector(index, 'appUserCard')?.name, 'UserCard');
+    assert.equal(findArtifactBySelector(index, 'app-other'), undefined);
+    assert.equal(findArtifactByName(index, 'initials')?.name, 'InitialsPipe');
+    assert.equal(findArtifactByName(index, 'UserCard')?.kind, 'component');
+});
@@ -0,0 +1,50 @@
+// clusterFix.test.ts
+// LLM patches are only accepted for files inside the project, whatever their headers say.
+
+import './vscodeStub';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as llmClient from '../../llmClient';
+import { fixClusterWithLLM } from '../../clusterFix';
+import { ErrorClusterer } from '../../errorClustering/ErrorClusterer';
+import { PatternMatcher } from '../../errorClustering/PatternMatcher';
+import { Conflict } from '../../types';
+
+test('a patch tagged with a project file but writing outside it through its headers fails', async () => {
+    const scratch = fs.mkdtempSync(path.join(os.tmpdir(), 'cluster-fix-'));
+    const rootPath = path.join(scratch, 'proj');
+    const filePath = path.join(rootPath, 'src', 'app.ts');
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, 'import { Http } from "@angular/http";\n');
+
+    const conflict: Conflict = {
+        filePath,
+        lineNumber: 1,
+        message: `Module '"@angular/http"' has no exported member 'Http'.`,
+        severity: 'error',
+        code: 2305
+    };
+    const [cluster] = new ErrorClusterer().clusterErrors([conflict]);
+
+    // The answer the LLM gives, without a request going out
+    (llmClient as { generateClusterFix: typeof llmClient.generateClusterFix }).generateClusterFix = async () => ({
+        patches: [{
+            instance: 0,
+            patch: {
+                diff: '--- /dev/null\n+++ b/../evil.ts\n@@ -0,0 +1 @@\n+export const evil = true;\n',
+                description: 'hostile',
+                filePath: 'src/app.ts',
+                source: 'llm'
+            }
+        }]
+    });
+
+    const [result] = await fixClusterWithLLM(cluster, { rootPath, docs: '', patternMatcher: new PatternMatcher() });
+
+    assert.equal(result.status, 'failed');
+    assert.match(result.error!, /\.\.\/evil\.ts, outside the project/);
+    assert.equal(fs.existsSync(path.join(scratch, 'evil.ts')), false);
+});
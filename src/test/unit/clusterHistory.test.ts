@@ -0,0 +1,47 @@
+// clusterHistory.test.ts
+// Cluster fingerprints follow the cluster key, so "won't fix" only hides the cluster it was set on.
+
+import './vscodeStub';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import type * as vscode from 'vscode';
+import { Conflict } from '../../types';
+import { ErrorClusterer } from '../../errorClustering/ErrorClusterer';
+import { fingerprintCluster, fingerprintKey, initializeClusterHistory, isWontFix, saveClusterRun, setWontFix } from '../../clusterHistory';
+
+const state = new Map<string, unknown>();
+initializeClusterHistory({
+    workspaceState: {
+        get: (key: string, defaultValue: unknown) => state.get(key) ?? defaultValue,
+        update: async (key: string, value: unknown) => { state.set(key, value); }
+    }
+} as unknown as vscode.ExtensionContext);
+
+const missingExport = (member: string): Conflict => ({
+    filePath: '/app/src/app.module.ts',
+    lineNumber: 1,
+    message: `Module '"@angular/http"' has no exported member '${member}'.`,
+    severity: 'error',
+    code: 2305,
+    nodeKind: 'ImportSpecifier',
+    moduleSpecifier: '@angular/http'
+});
+
+test("won't fix on one missing export leaves the others proposed", async () => {
+    const clusterer = new ErrorClusterer();
+    const [http, headers] = clusterer.clusterErrors([missingExport('Http'), missingExport('Headers')]);
+    await saveClusterRun([http, headers], new Map());
+
+    await setWontFix([fingerprintCluster(http)], true);
+
+    assert.equal(isWontFix(http), true);
+    assert.equal(isWontFix(headers), false);
+});
+
+test('a held-back error fingerprints like the cluster it would form', () => {
+    const clusterer = new ErrorClusterer();
+    const conflict = missingExport('Http');
+    const [cluster] = clusterer.clusterErrors([conflict]);
+
+    assert.equal(fingerprintKey(clusterer.keyOf(conflict)), fingerprintCluster(cluster));
+});
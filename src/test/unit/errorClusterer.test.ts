@@ -0,0 +1,72 @@
+// errorClusterer.test.ts
+// Errors are clustered by what fails, and pattern fixes only touch the instances they match.
+
+import './vscodeStub';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Conflict } from '../../types';
+import { ErrorClusterer } from '../../errorClustering/ErrorClusterer';
+import { PatternFix, PatternMatcher } from '../../errorClustering/PatternMatcher';
+
+const missingExport = (member: string, lineNumber: number): Conflict => ({
+    filePath: '/app/src/app.module.ts',
+    lineNumber,
+    message: `Module '"@angular/http"' has no exported member '${member}'.`,
+    severity: 'error',
+    code: 2305,
+    nodeKind: 'ImportSpecifier',
+    moduleSpecifier: '@angular/http'
+});
+
+test('missing exports of different members are separate clusters', () => {
+    const clusters = new ErrorClusterer().clusterErrors([
+        missingExport('Http', 1),
+        missingExport('Headers', 2),
+        missingExport('Http', 3)
+    ]);
+
+    assert.deepEqual(clusters.map(cluster => [cluster.pattern, cluster.instances.length]), [
+        ["TS2305 'Http' at ImportSpecifier from '@angular/http'", 2],
+        ["TS2305 'Headers' at ImportSpecifier from '@angular/http'", 1]
+    ]);
+});
+
+test('codes without a symbol argument keep the structural key', () => {
+    const conflict = (lineNumber: number, type: string): Conflict => ({
+        filePath: '/app/src/a.ts',
+        lineNumber,
+        message: `Type '${type}' is not assignable to type 'number'.`,
+        severity: 'error',
+        code: 2322
+    });
+
+    const clusters = new ErrorClusterer().clusterErrors([conflict(1, 'string'), conflict(2, 'boolean')]);
+
+    assert.equal(clusters.length, 1);
+    assert.equal(clusters[0].key.symbol, undefined);
+});
+
+test('instances a pattern does not match are not fixed and split off', () => {
+    const clusterer = new ErrorClusterer();
+    const [cluster] = clusterer.clusterErrors([1, 2, 3].map(line => missingExport('Http', line)));
+    const pattern: PatternFix = {
+        id: 'odd-lines',
+        name: 'Odd lines',
+        description: 'Only matches odd lines',
+        check: conflict => conflict.lineNumber % 2 === 1,
+        fix: conflict => ({ diff: `@@ ${conflict.lineNumber} @@`, description: 'fix', filePath: conflict.filePath, source: 'pattern' })
+    };
+    const matcher = new PatternMatcher();
+
+    const patches = matcher.generateFixes(cluster, pattern);
+    assert.deepEqual(patches.map(patch => patch.targetConflict?.lineNumber), [1, 3]);
+
+    const unmatched = matcher.unmatchedInstances(cluster, pattern);
+    const split = clusterer.splitCluster(cluster, unmatched, pattern.id);
+
+    assert.deepEqual(cluster.instances.map(c => c.lineNumber), [1, 3]);
+    assert.equal(cluster.reasons.length, 2);
+    assert.deepEqual(split.instances.map(c => c.lineNumber), [2]);
+    assert.equal(split.pattern, "TS2305 'Http' at ImportSpecifier from '@angular/http' not matching odd-lines");
+    assert.notEqual(split.id, cluster.id);
+});
@@ -0,0 +1,62 @@
+// lineDiff.test.ts
+// computeLineDiff returns a complete, minimal edit script.
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { computeLineDiff, DiffOp } from '../../lineDiff';
+
+/**
+ * Replays an edit script, checking every index against the inputs.
+ */
+function replay(oldLines: string[], newLines: string[], ops: DiffOp[]): void {
+    let x = 0;
+    let y = 0;
+    for (const op of ops) {
+        assert.deepEqual([op.oldIndex, op.newIndex], [x, y]);
+        if (op.type === 'equal') {
+            assert.equal(oldLines[x], newLines[y]);
+            x++;
+            y++;
+        } else if (op.type === 'delete') {
+            assert.equal(op.text, oldLines[x++]);
+        } else {
+            assert.equal(op.text, newLines[y++]);
+        }
+    }
+    assert.deepEqual([x, y], [oldLines.length, newLines.length]);
+}
+
+const edits = (ops: DiffOp[]) => ops.filter(op => op.type !== 'equal').length;
+
+test('the classic Myers example needs five edits', () => {
+    const a = 'ABCABBA'.split('');
+    const b = 'CBABAC'.split('');
+    const ops = computeLineDiff(a, b);
+
+    replay(a, b, ops);
+    assert.equal(edits(ops), 5);
+});
+
+test('insertions and deletions between equal lines', () => {
+    const a = ['a', 'b', 'c', 'd', 'e', 'f'];
+    const b = ['a', 'x', 'c', 'd', 'y', 'z', 'f'];
+    const ops = computeLineDiff(a, b);
+
+    replay(a, b, ops);
+    assert.equal(edits(ops), 5);
+});
+
+test('empty inputs', () => {
+    assert.deepEqual(computeLineDiff([], []), []);
+    replay([], ['a', 'b'], computeLineDiff([], ['a', 'b']));
+    replay(['a', 'b'], [], computeLineDiff(['a', 'b'], []));
+});
+
+test('a total rewrite of a large file', () => {
+    const a = Array.from({ length: 3000 }, (_, i) => `old ${i}`);
+    const b = Array.from({ length: 3000 }, (_, i) => (i % 100 === 0 ? `old ${i}` : `new ${i}`));
+    const ops = computeLineDiff(a, b);
+
+    replay(a, b, ops);
+    assert.equal(ops.filter(op => op.type === 'equal').length, 30);
+});
@@ -0,0 +1,39 @@
+// patchFile.test.ts
+// Exported patch files use root-relative paths and read back into the same patches.
+
+import './vscodeStub';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as path from 'path';
+import { createPatch } from '../../patcher';
+import { formatPatchFile, parsePatchFile } from '../../patchFile';
+
+const ROOT = path.resolve('/work/app');
+
+test('patches created without a project root export with relative headers', () => {
+    const filePath = path.join(ROOT, 'src', 'main.ts');
+    const patch = createPatch(filePath, 'a\nb\n', 'a\nc\n', 'Change b');
+
+    const content = formatPatchFile([patch], 'patch', ROOT);
+
+    assert.match(content, /^--- a\/src\/main\.ts$/m);
+    assert.match(content, /^\+\+\+ b\/src\/main\.ts$/m);
+    assert.doesNotMatch(content, new RegExp(ROOT.replace(/[\\\\/]/g, '.')));
+
+    const [imported] = parsePatchFile(content, ROOT);
+    assert.equal(imported.filePath, filePath);
+    assert.equal(imported.description, 'Change b');
+});
+
+test('patches touching files outside the root are not exported', () => {
+    const patch = createPatch(path.resolve('/elsewhere/main.ts'), 'a\n', 'b\n', 'Outside');
+    assert.throws(() => formatPatchFile([patch], 'mbox', ROOT), /outside/);
+});
+
+test('imported diffs that name files outside the root are refused', () => {
+    const diff = (target: string) => `--- a/src/main.ts\n+++ b/src/main.ts\n@@ -1 +1 @@\n-a\n+b\n--- /dev/null\n+++ ${target}\n@@ -0,0 +1 @@\n+x\n`;
+
+    assert.throws(() => parsePatchFile(diff('b/../../etc/evil'), ROOT), /outside/);
+    assert.throws(() => parsePatchFile(diff(path.resolve('/elsewhere/evil.ts')), ROOT), /outside/);
+    assert.equal(parsePatchFile(diff('b/src/created.ts'), ROOT).length, 2);
+});
@@ -0,0 +1,171 @@
+// patchJournal.test.ts
+// Journaled patches are reverted to the original content, and files edited
+// after the patch are left alone.
+
+import './vscodeStub';
+import { test, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import { applyPatch, createPatch } from '../../patcher';
+import { getJournalEntries, hashContent, initializePatchJournal, recordPatch, revertJournalEntries, JournalEntry } from '../../patchJournal';
+
+const ORIGINAL = ['export class C {', '    a = 1;', '    b = 2;', '    c = 3;', '}', ''].join('\n');
+
+let directory: string;
+let filePath: string;
+let storagePath: string;
+let journalDirectory: string;
+
+beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'patch-journal-'));
+    filePath = path.join(directory, 'c.ts');
+    fs.writeFileSync(filePath, ORIGINAL);
+    storagePath = path.join(directory, 'storage');
+    journalDirectory = path.join(storagePath, 'patch-journal');
+    initializePatchJournal({ storageUri: { fsPath: storagePath } } as unknown as vscode.ExtensionContext);
+});
+
+/**
+ * Applies `original → patched` to the file and returns its journal id.
+ */
+async function applyChange(original: string, patched: string): Promise<string> {
+    const result = await applyPatch(filePath, createPatch(filePath, original, patched, 'test'), { rootPath: directory });
+    assert.equal(result.success, true, result.error);
+    return result.journalId!;
+}
+
+test('a journaled patch reverts to the original content and is pruned', async () => {
+    const id = await applyChange(ORIGINAL, ORIGINAL.replace('a = 1', 'a = 10'));
+    assert.deepEqual(fs.readdirSync(path.join(journalDirectory, 'originals')), [`${id}.json`]);
+
+    const { reverted, skipped } = await revertJournalEntries([id]);
+
+    assert.deepEqual(reverted, [id]);
+    assert.deepEqual(skipped, []);
+    assert.equal(fs.readFileSync(filePath, 'utf-8'), ORIGINAL);
+    assert.equal(getJournalEntries().length, 0);
+    assert.deepEqual(fs.readdirSync(path.join(journalDirectory, 'originals')), []);
+});
+
+test('the index does not hold original contents, and old entries are pruned past the cap', () => {
+    const patch = createPatch(filePath, ORIGINAL, ORIGINAL.replace('a = 1', 'a = 10'), 'test');
+    const ids = Array.from({ length: 205 }, () =>
+        recordPatch(patch, [{ filePath, original: ORIGINAL, content: ORIGINAL.replace('a = 1', 'a = 10') }])!.id);
+
+    const index = fs.readFileSync(path.join(journalDirectory, 'index.json'), 'utf-8');
+    assert.equal(index.includes(JSON.stringify(ORIGINAL)), false);
+    assert.deepEqual(getJournalEntries().map(entry => entry.id), ids.slice(5));
+    assert.equal(fs.readdirSync(path.join(journalDirectory, 'originals')).length, 200);
+});
+
+test('entries revert newest first', async () => {
+    const first = await applyChange(ORIGINAL, ORIGINAL.replace('a = 1', 'a = 10'));
+    const afterFirst = fs.readFileSync(filePath, 'utf-8');
+    const second = await applyChange(afterFirst, afterFirst.replace('b = 2', 'b = 20'));
+
+    const { reverted } = await revertJournalEntries([first, second]);
+
+    assert.deepEqual(reverted, [second, first]);
+    assert.equal(fs.readFileSync(filePath, 'utf-8'), ORIGINAL);
+});
+
+test('a file edited after the patch is not reverted', async () => {
+    const id = await applyChange(ORIGINAL, ORIGINAL.replace('a = 1', 'a = 10'));
+    const edited = fs.readFileSync(filePath, 'utf-8').replace('c = 3', 'c = 30');
+    fs.writeFileSync(filePath, edited);
+
+    const { reverted, skipped } = await revertJournalEntries([id]);
+
+    assert.deepEqual(reverted, []);
+    assert.equal(skipped[0].id, id);
+    assert.equal(fs.readFileSync(filePath, 'utf-8'), edited);
+    assert.equal(getJournalEntries().length, 1);
+});
+
+test('a patch applied through a three-way merge reverts to the exact original', async () => {
+    const lines = Array.from({ length: 12 }, (_, i) => `    line${i + 1} = ${i + 1};`);
+    const base = ['export class C {', ...lines, '}', ''].join('\n');
+    const patch = createPatch(filePath, base, base.replace('line7 = 7', 'line7 = 70'), 'test');
+
+    // The file changed next to the hunk since the patch was made, so only the merge applies it
+    const current = base.replace('line4 = 4', 'line4 = 40');
+    fs.writeFileSync(filePath, current);
+    const result = await applyPatch(filePath, patch, { rootPath: directory, fuzzFactor: 0, maxOffset: 0 });
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.hunks[0].status, 'rejected');
+
+    const { reverted } = await revertJournalEntries([result.journalId!]);
+
+    assert.deepEqual(reverted, [result.journalId]);
+    assert.equal(fs.readFileSync(filePath, 'utf-8'), current);
+});
+
+test('a change to the final newline reverts', async () => {
+    const id = await applyChange(ORIGINAL, ORIGINAL.slice(0, -1));
+    assert.equal(fs.readFileSync(filePath, 'utf-8'), ORIGINAL.slice(0, -1));
+
+    await revertJournalEntries([id]);
+
+    assert.equal(fs.readFileSync(filePath, 'utf-8'), ORIGINAL);
+});
+
+test('a legacy entry without stored content is not reverted when the reverse diff misses the original', async () => {
+    const patched = ORIGINAL.replace('a = 1', 'a = 10');
+    fs.writeFileSync(filePath, patched);
+    const entry: JournalEntry = {
+        id: 'legacy',
+        timestamp: new Date().toISOString(),
+        source: 'llm',
+        description: 'legacy entry',
+        // Claims the patch changed "a = 2", which is not what was written
+        diff: createPatch(filePath, ORIGINAL.replace('a = 1', 'a = 2'), patched, 'legacy').diff,
+        filePath,
+        files: [{ filePath, originalHash: hashContent(ORIGINAL), patchedHash: hashContent(patched) }]
+    };
+    // Written by an earlier version, as one file in the storage directory
+    fs.mkdirSync(storagePath, { recursive: true });
+    fs.writeFileSync(path.join(storagePath, 'patch-journal.json'), JSON.stringify([entry]));
+
+    const { reverted, skipped } = await revertJournalEntries(['legacy']);
+
+    assert.deepEqual(reverted, []);
+    assert.match(skipped[0].reason, /original content/);
+    assert.equal(fs.readFileSync(filePath, 'utf-8'), patched);
+    assert.equal(getJournalEntries().length, 1);
+});
+
+test('legacy entries with inline original contents are migrated and revert', async () => {
+    const patched = ORIGINAL.replace('a = 1', 'a = 10');
+    fs.writeFileSync(filePath, patched);
+    const legacy = [
+        { id: 'gone', timestamp: '', source: 'llm', description: 'reverted', diff: '', filePath, revertedAt: '2026-01-01', files: [] },
+        {
+            id: 'kept', timestamp: '', source: 'llm', description: 'applied', diff: '', filePath,
+            files: [{ filePath, originalHash: hashContent(ORIGINAL), patchedHash: hashContent(patched), originalContent: ORIGINAL }]
+        }
+    ];
+    fs.mkdirSync(storagePath, { recursive: true });
+    fs.writeFileSync(path.join(storagePath, 'patch-journal.json'), JSON.stringify(legacy));
+
+    assert.deepEqual(getJournalEntries().map(entry => entry.id), ['kept']);
+    assert.equal(fs.existsSync(path.join(storagePath, 'patch-journal.json')), false);
+
+    const { reverted } = await revertJournalEntries(['kept']);
+    assert.deepEqual(reverted, ['kept']);
+    assert.equal(fs.readFileSync(filePath, 'utf-8'), ORIGINAL);
+});
+
+test('an unreadable journal is moved aside instead of being overwritten', async () => {
+    fs.mkdirSync(journalDirectory, { recursive: true });
+    fs.writeFileSync(path.join(journalDirectory, 'index.json'), '{ not json');
+
+    await applyChange(ORIGINAL, ORIGINAL.replace('a = 1', 'a = 10'));
+
+    const aside = fs.readdirSync(journalDirectory).filter(name => name.includes('.unreadable-'));
+    assert.equal(aside.length, 1);
+    assert.equal(fs.readFileSync(path.join(journalDirectory, aside[0]), 'utf-8'), '{ not json');
+    assert.equal(getJournalEntries().length, 1);
+});
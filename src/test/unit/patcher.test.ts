@@ -0,0 +1,200 @@
+// patcher.test.ts
+// createPatch / applyUnifiedDiff round trips and tolerant hunk matching.
+
+import './vscodeStub';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { applyPatch, applyUnifiedDiff, createPatch, previewPatch } from '../../patcher';
+import { Patch } from '../../types';
+
+const OPTIONS = { maxOffset: 50, fuzzFactor: 2 };
+
+/**
+ * Creates a patch from `before` to `after` and applies it back to `before`.
+ */
+function roundTrip(before: string, after: string): string | null {
+    const patch = createPatch('src/app.ts', before, after, 'test');
+    return applyUnifiedDiff(before, patch.diff, OPTIONS).content;
+}
+
+const numbered = (count: number, prefix = 'line') =>
+    Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`);
+
+test('round trip: single changed line', () => {
+    const before = numbered(10).join('\n') + '\n';
+    const after = before.replace('line 5', 'line five');
+    assert.equal(roundTrip(before, after), after);
+});
+
+test('round trip: separate hunks, insertions and deletions', () => {
+    const lines = numbered(40);
+    const before = lines.join('\n') + '\n';
+    const changed = [...lines];
+    changed.splice(30, 2);
+    changed.splice(20, 0, 'inserted a', 'inserted b');
+    changed[2] = 'changed 3';
+    const after = changed.join('\n') + '\n';
+
+    const patch = createPatch('src/app.ts', before, after, 'test');
+    assert.equal((patch.diff.match(/^@@/gm) ?? []).length, 3);
+    assert.equal(applyUnifiedDiff(before, patch.diff, OPTIONS).content, after);
+});
+
+test('round trip: changes at the first and last line', () => {
+    const before = numbered(6).join('\n') + '\n';
+    const after = ['first', ...numbered(6).slice(1, 5), 'last'].join('\n') + '\n';
+    assert.equal(roundTrip(before, after), after);
+});
+
+test('round trip: file created from and emptied to nothing', () => {
+    const content = numbered(3).join('\n') + '\n';
+    assert.equal(roundTrip('', content), content);
+    assert.equal(roundTrip(content, ''), '');
+});
+
+test('round trip: file without a final newline, change in the middle', () => {
+    const before = numbered(8).join('\n');
+    const after = before.replace('line 4', 'line four');
+    assert.equal(roundTrip(before, after), after);
+});
+
+test('round trip: only the final newline is added', () => {
+    const before = numbered(6).join('\n');
+    const patch = createPatch('src/app.ts', before, before + '\n', 'test');
+
+    assert.match(patch.diff, /-line 6\n\\ No newline at end of file\n\+line 6\n$/);
+    assert.equal(applyUnifiedDiff(before, patch.diff, OPTIONS).content, before + '\n');
+});
+
+test('round trip: only the final newline is removed', () => {
+    const before = numbered(6).join('\n') + '\n';
+    const after = before.slice(0, -1);
+    assert.equal(roundTrip(before, after), after);
+});
+
+test('round trip: last line changed and final newline removed, in a long file', () => {
+    const before = numbered(30).join('\n') + '\n';
+    const after = before.replace('line 2\n', 'line two\n').replace('line 30\n', 'the end');
+    assert.equal(roundTrip(before, after), after);
+});
+
+test('a git diff that removes the final newline applies', () => {
+    const diff = [
+        'diff --git a/src/app.ts b/src/app.ts',
+        '--- a/src/app.ts',
+        '+++ b/src/app.ts',
+        '@@ -2,2 +2,2 @@',
+        ' b',
+        '-c',
+        '+c',
+        '\\ No newline at end of file',
+        ''
+    ].join('\n');
+    assert.equal(applyUnifiedDiff('a\nb\nc\n', diff, OPTIONS).content, 'a\nb\nc');
+});
+
+test('a no-newline hunk only applies at the end of the file', () => {
+    const diff = '@@ -1,2 +1,2 @@\n a\n-b\n+b\n\\ No newline at end of file\n';
+    const { content, hunks } = applyUnifiedDiff('a\nb\nc\n', diff, OPTIONS);
+
+    assert.equal(content, null);
+    assert.equal(hunks[0].status, 'rejected');
+});
+
+test('createPatch writes git headers and the no-newline marker', () => {
+    const patch = createPatch('src/app.ts', 'a\nb', 'a\nc', 'test');
+    assert.equal(patch.diff, [
+        '--- a/src/app.ts',
+        '+++ b/src/app.ts',
+        '@@ -1,2 +1,2 @@',
+        ' a',
+        '-b',
+        '\\ No newline at end of file',
+        '+c',
+        '\\ No newline at end of file',
+        ''
+    ].join('\n'));
+});
+
+test('a hunk displaced by added lines applies with an offset', () => {
+    const before = numbered(20).join('\n') + '\n';
+    const after = before.replace('line 12', 'line twelve');
+    const patch = createPatch('src/app.ts', before, after, 'test');
+
+    const shifted = ['added 1', 'added 2', 'added 3', before].join('\n');
+    const { content, hunks } = applyUnifiedDiff(shifted, patch.diff, OPTIONS);
+
+    assert.equal(content, ['added 1', 'added 2', 'added 3', after].join('\n'));
+    assert.equal(hunks[0].status, 'applied-with-offset');
+    assert.equal(hunks[0].offset, 3);
+});
+
+test('a hunk whose context is gone is rejected and nothing is returned', () => {
+    const before = numbered(10).join('\n') + '\n';
+    const patch = createPatch('src/app.ts', before, before.replace('line 5', 'line five'), 'test');
+
+    const unrelated = numbered(10, 'other').join('\n') + '\n';
+    const { content, hunks } = applyUnifiedDiff(unrelated, patch.diff, OPTIONS);
+
+    assert.equal(content, null);
+    assert.equal(hunks[0].status, 'rejected');
+});
+
+test('CRLF diffs apply to LF content', () => {
+    const before = numbered(5).join('\n') + '\n';
+    const after = before.replace('line 3', 'line three');
+    const diff = createPatch('src/app.ts', before, after, 'test').diff.replace(/\n/g, '\r\n');
+    assert.equal(applyUnifiedDiff(before, diff, OPTIONS).content, after);
+});
+
+/**
+ * A project directory inside a scratch directory, so writes above the root are observable.
+ */
+function scratchProject(): { scratch: string; root: string } {
+    const scratch = fs.mkdtempSync(path.join(os.tmpdir(), 'patcher-'));
+    const root = path.join(scratch, 'proj');
+    fs.mkdirSync(root);
+    return { scratch, root };
+}
+
+const creation = (target: string): Patch => ({
+    diff: `--- /dev/null\n+++ ${target}\n@@ -0,0 +1 @@\n+export const x = 1;\n`,
+    description: 'test',
+    filePath: 'src/app.ts',
+    source: 'manual'
+});
+
+test('a diff whose header climbs out of the project is rejected', async () => {
+    const { scratch, root } = scratchProject();
+    const patch = creation('b/../outside.ts');
+
+    const result = await applyPatch(path.join(root, 'src/app.ts'), patch, { rootPath: root, verification: 'off', journal: false });
+
+    assert.equal(result.success, false);
+    assert.match(result.files![0].error!, /Outside the project/);
+    assert.equal(fs.existsSync(path.join(scratch, 'outside.ts')), false);
+    assert.match(previewPatch(path.join(root, 'src/app.ts'), patch, { rootPath: root }).error!, /Outside the project/);
+});
+
+test('a diff with an absolute header outside the project is rejected', async () => {
+    const { scratch, root } = scratchProject();
+    const target = path.join(scratch, 'absolute.ts');
+
+    const result = await applyPatch(path.join(root, 'src/app.ts'), creation(target), { rootPath: root, verification: 'off', journal: false });
+
+    assert.equal(result.success, false);
+    assert.equal(fs.existsSync(target), false);
+});
+
+test('a diff with an absolute header inside the project applies', async () => {
+    const { root } = scratchProject();
+    const target = path.join(root, 'created.ts');
+
+    const result = await applyPatch(target, creation(target), { rootPath: root, verification: 'off', journal: false });
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(fs.readFileSync(target, 'utf-8'), 'export const x = 1;\n');
+});
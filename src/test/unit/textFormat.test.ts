@@ -0,0 +1,30 @@
+// textFormat.test.ts
+// Files round-trip through decodeText / encodeText with their line endings.
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { decodeText, encodeText } from '../../textFormat';
+
+test('a CRLF file round-trips unchanged', () => {
+    const raw = Buffer.from('a\r\nb\r\nc\r\n');
+    const { text, format } = decodeText(raw);
+
+    assert.equal(text, 'a\nb\nc\n');
+    assert.deepEqual(encodeText(text, format, text), raw);
+});
+
+test('bare-LF lines of a mostly-CRLF file keep their ending', () => {
+    const raw = 'one\r\ntwo\nthree\r\nfour\r\nfive\n';
+    const { text, format } = decodeText(Buffer.from(raw));
+
+    assert.equal(format.eol, '\r\n');
+    assert.equal(encodeText(text, format, text).toString(), raw);
+
+    const edited = text.replace('three', 'THREE').replace('four\n', 'four\nadded\n');
+    assert.equal(encodeText(edited, format, text).toString(), 'one\r\ntwo\nTHREE\r\nfour\r\nadded\r\nfive\n');
+});
+
+test('without the original text, every line gets the dominant ending', () => {
+    const { text, format } = decodeText(Buffer.from('a\r\nb\nc\r\n'));
+    assert.equal(encodeText(text, format).toString(), 'a\r\nb\r\nc\r\n');
+});
@@ -0,0 +1,66 @@
+// threeWayMerge.test.ts
+// mergeThreeWay / renderMerge on one-sided, identical and conflicting changes.
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { mergeThreeWay, renderMerge } from '../../threeWayMerge';
+
+const BASE = ['import { A } from "a";', '', 'class C {', '    x = 1;', '    y = 2;', '}', ''].join('\n');
+
+test('changes separated by an unchanged line merge cleanly', () => {
+    const ours = BASE.replace('import { A }', 'import { A1 }');
+    const theirs = BASE.replace('y = 2', 'y = 20');
+
+    const merge = mergeThreeWay(BASE, ours, theirs);
+
+    assert.equal(merge.clean, true);
+    assert.equal(renderMerge(merge), BASE.replace('import { A }', 'import { A1 }').replace('y = 2', 'y = 20'));
+});
+
+test('changes to adjacent lines conflict, as in diff3', () => {
+    const merge = mergeThreeWay(BASE, BASE.replace('x = 1', 'x = 10'), BASE.replace('y = 2', 'y = 20'));
+
+    assert.equal(merge.clean, false);
+    assert.deepEqual(merge.conflicts[0].base, ['    x = 1;', '    y = 2;']);
+});
+
+test('lines added above a change on the other side merge cleanly', () => {
+    const ours = '// header\n// more\n' + BASE;
+    const theirs = BASE.replace('    y = 2;', '    y = 2;\n    z = 3;');
+
+    const merge = mergeThreeWay(BASE, ours, theirs);
+
+    assert.equal(merge.clean, true);
+    assert.equal(renderMerge(merge), '// header\n// more\n' + theirs);
+});
+
+test('the same change on both sides is not a conflict', () => {
+    const changed = BASE.replace('x = 1', 'x = 3');
+    const merge = mergeThreeWay(BASE, changed, changed);
+
+    assert.equal(merge.clean, true);
+    assert.equal(renderMerge(merge), changed);
+});
+
+test('different changes to the same line conflict', () => {
+    const ours = BASE.replace('x = 1', 'x = 2');
+    const theirs = BASE.replace('x = 1', 'x = 3');
+
+    const merge = mergeThreeWay(BASE, ours, theirs);
+
+    assert.equal(merge.clean, false);
+    assert.equal(merge.conflicts.length, 1);
+    assert.deepEqual(merge.conflicts[0].base, ['    x = 1;']);
+    assert.deepEqual(merge.conflicts[0].ours, ['    x = 2;']);
+    assert.deepEqual(merge.conflicts[0].theirs, ['    x = 3;']);
+    assert.equal(merge.conflicts[0].line, 4);
+});
+
+test('conflicts render with markers or with the chosen resolution', () => {
+    const merge = mergeThreeWay(BASE, BASE.replace('x = 1', 'x = 2'), BASE.replace('x = 1', 'x = 3'));
+
+    assert.equal(renderMerge(merge, ['ours']), BASE.replace('x = 1', 'x = 2'));
+    assert.equal(renderMerge(merge, ['theirs']), BASE.replace('x = 1', 'x = 3'));
+    assert.equal(renderMerge(merge, ['both']), BASE.replace('    x = 1;', '    x = 2;\n    x = 3;'));
+    assert.match(renderMerge(merge), /<<<<<<< current\n {4}x = 2;\n\|\|\|\|\|\|\| base\n {4}x = 1;\n=======\n {4}x = 3;\n>>>>>>> patch/);
+});
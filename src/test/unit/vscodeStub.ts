@@ -0,0 +1,53 @@
+// vscodeStub.ts
+// Minimal stand-in for the `vscode` module, so the patcher, merge and journal modules
+// can be tested under plain Node. Import it before any module that imports `vscode`.
+// Settings resolve to `settings` or their defaults, and no editor documents are open.
+
+import Module = require('module');
+
+/**
+ * Setting values by full key (e.g. `angularUpgrade.patchApplyMode`).
+ * Tests write to disk by default, since WorkspaceEdits need a running VS Code.
+ */
+export const settings: Record<string, unknown> = {
+    'angularUpgrade.patchApplyMode': 'disk'
+};
+
+const outputChannel = {
+    appendLine: () => undefined,
+    append: () => undefined,
+    show: () => undefined,
+    clear: () => undefined,
+    dispose: () => undefined
+};
+
+const vscode = {
+    workspace: {
+        workspaceFolders: undefined,
+        textDocuments: [],
+        getConfiguration: (section?: string) => ({
+            get: <T>(key: string, defaultValue?: T): T | undefined => {
+                const fullKey = section ? `${section}.${key}` : key;
+                return fullKey in settings ? settings[fullKey] as T : defaultValue;
+            }
+        })
+    },
+    window: {
+        createOutputChannel: () => outputChannel,
+        showInformationMessage: async () => undefined,
+        showWarningMessage: async () => undefined,
+        showErrorMessage: async () => undefined
+    },
+    Uri: {
+        file: (fsPath: string) => ({ scheme: 'file', fsPath })
+    }
+};
+
+// Resolve `vscode` to a cache entry holding the stub
+const STUB_ID = 'vscode';
+const loader = Module as unknown as { _resolveFilename: (request: string, ...rest: unknown[]) => string };
+const resolveFilename = loader._resolveFilename;
+loader._resolveFilename = function (request: string, ...rest: unknown[]): string {
+    return request === 'vscode' ? STUB_ID : resolveFilename.call(this, request, ...rest);
+};
+require.cache[STUB_ID] = { id: STUB_ID, filename: STUB_ID, loaded: true, exports: vscode } as unknown as NodeModule;
@@ -0,0 +1,145 @@
+// textFormat.ts
+// This module detects and restores the on-disk format of text files:
+// encoding, byte order mark and line endings.
+// The patcher works on LF text only; files are decoded into that form when read
+// and encoded back into their original format when written.
+
+import { computeLineDiff } from './lineDiff';
+
+/**
+ * How a text file is stored on disk.
+ */
+export interface TextFormat {
+    encoding: 'utf8' | 'utf16le' | 'utf16be' | 'latin1';
+    /** Whether the file starts with a byte order mark */
+    bom: boolean;
+    /** Dominant line ending; CRLF files are handled as LF in memory */
+    eol: '\n' | '\r\n';
+    /** For CRLF files: 0-based lines that end in a bare LF, so they can keep it on write */
+    lfLines?: number[];
+}
+
+/**
+ * Format used for new files when nothing else is known.
+ */
+export const DEFAULT_TEXT_FORMAT: TextFormat = { encoding: 'utf8', bom: false, eol: '\n' };
+
+/**
+ * Decodes file bytes into LF text and remembers how to encode them again.
+ * Files with mostly CRLF endings are converted to LF; files with mostly LF
+ * endings are left untouched, so stray CRLF lines survive a round trip.
+ *
+ * @param buffer - Raw file content
+ * @returns The text and the detected format
+ */
+export function decodeText(buffer: Buffer): { text: string; format: TextFormat } {
+    let encoding: TextFormat['encoding'];
+    let bomLength = 0;
+
+    if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+        encoding = 'utf8';
+        bomLength = 3;
+    } else if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+        encoding = 'utf16le';
+        bomLength = 2;
+    } else if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) {
+        encoding = 'utf16be';
+        bomLength = 2;
+    } else {
+        // Bytes that do not round-trip through UTF-8 are treated as Latin-1
+        encoding = buffer.equals(Buffer.from(buffer.toString('utf8'), 'utf8')) ? 'utf8' : 'latin1';
+    }
+
+    const body = buffer.subarray(bomLength);
+    const raw = encoding === 'utf16be'
+        ? Buffer.from(body).swap16().toString('utf16le')
+        : body.toString(encoding);
+    const eol = detectEol(raw);
+    const format: TextFormat = { encoding, bom: bomLength > 0, eol };
+
+    if (eol === '\r\n') {
+        const lfLines = raw.split('\n').slice(0, -1)
+            .map((line, index) => (line.endsWith('\r') ? -1 : index))
+            .filter(index => index !== -1);
+        if (lfLines.length > 0) {
+            format.lfLines = lfLines;
+        }
+    }
+
+    return {
+        text: eol === '\r\n' ? raw.replace(/\r\n/g, '\n') : raw,
+        format
+    };
+}
+
+/**
+ * Encodes LF text in the given format.
+ * In CRLF files, lines that ended in a bare LF keep it when they are unchanged from
+ * `originalText`; only lines the change added or edited get the dominant ending.
+ *
+ * @param text - Text as handled by the patcher
+ * @param format - Format detected when the file was read
+ * @param originalText - LF text the format was detected with, if the file existed
+ * @returns File bytes
+ */
+export function encodeText(text: string, format: TextFormat, originalText?: string): Buffer {
+    const raw = format.eol === '\r\n' ? toCrlf(text, format.lfLines ?? [], originalText) : text;
+
+    if (format.encoding === 'utf16be') {
+        const body = Buffer.from(raw, 'utf16le').swap16();
+        return format.bom ? Buffer.concat([Buffer.from([0xfe, 0xff]), body]) : body;
+    }
+
+    const body = Buffer.from(raw, format.encoding);
+    if (!format.bom) {
+        return body;
+    }
+
+    const bom = format.encoding === 'utf16le' ? [0xff, 0xfe] : [0xef, 0xbb, 0xbf];
+    return Buffer.concat([Buffer.from(bom), body]);
+}
+
+/**
+ * Brings text from outside the patcher (diffs, editor buffers) into LF form:
+ * drops a leading BOM and converts CRLF line endings to LF.
+ * LLMs always emit LF, so both sides must agree before context lines are compared.
+ *
+ * @param text - Text to normalize
+ * @returns LF text
+ */
+export function normalizeLineEndings(text: string): string {
+    return text.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n');
+}
+
+/**
+ * Converts LF text to CRLF, except for the lines that map onto an unchanged bare-LF line
+ * of the original text.
+ */
+function toCrlf(text: string, lfLines: number[], originalText: string | undefined): string {
+    if (lfLines.length === 0 || originalText === undefined) {
+        return text.replace(/\r?\n/g, '\r\n');
+    }
+
+    const originalLf = new Set(lfLines);
+    const lines = text.split('\n');
+    const keepLf = new Set<number>();
+    for (const op of computeLineDiff(originalText.split('\n'), lines)) {
+        if (op.type === 'equal' && originalLf.has(op.oldIndex)) {
+            keepLf.add(op.newIndex);
+        }
+    }
+
+    return lines
+        .map((line, index) => (index === lines.length - 1 ? line : line + (keepLf.has(index) ? '\n' : '\r\n')))
+        .join('');
+}
+
+/**
+ * Picks the line ending used by most lines.
+ */
+function detectEol(text: string): TextFormat['eol'] {
+    const lineFeeds = text.split('\n').length - 1;
+    const crlfs = text.split('\r\n').length - 1;
+
+    return lineFeeds > 0 && crlfs * 2 > lineFeeds ? '\r\n' : '\n';
+}
@@ -0,0 +1,152 @@
+// threeWayMerge.ts
+// This module performs diff3-style three-way merges of text.
+// It is used when a patch no longer applies to the current file because the file
+// changed after the patch was generated: the patch is applied to its original base
+// text and the result is merged with the current content.
+
+import { computeLineDiff } from './lineDiff';
+import { MergeResult, MergeConflict, MergeResolution } from './types';
+
+/**
+ * Merges two descendants of a common base, line by line.
+ * Regions changed on only one side (or identically on both) merge cleanly;
+ * regions changed differently on both sides become conflicts.
+ *
+ * @param base - Text both sides were derived from
+ * @param ours - Current text (e.g. the file on disk)
+ * @param theirs - Incoming text (e.g. the base with the patch applied)
+ * @returns Merge result with stable segments and conflicts in order
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string): MergeResult {
+    const baseLines = base.split('\n');
+    const oursLines = ours.split('\n');
+    const theirsLines = theirs.split('\n');
+
+    const toOurs = matchLines(baseLines, oursLines);
+    const toTheirs = matchLines(baseLines, theirsLines);
+
+    const segments: MergeResult['segments'] = [];
+    const conflicts: MergeConflict[] = [];
+    const emit = (lines: string[]) => {
+        if (lines.length === 0) {
+            return;
+        }
+        const last = segments[segments.length - 1];
+        if (Array.isArray(last)) {
+            last.push(...lines);
+        } else {
+            segments.push([...lines]);
+        }
+    };
+
+    let b = 0;
+    let o = 0;
+    let t = 0;
+
+    while (true) {
+        // Stable run: base line present at the current position on both sides
+        while (b < baseLines.length && toOurs[b] === o && toTheirs[b] === t) {
+            emit([baseLines[b]]);
+            b++;
+            o++;
+            t++;
+        }
+
+        if (b >= baseLines.length && o >= oursLines.length && t >= theirsLines.length) {
+            break;
+        }
+
+        // Unstable chunk: runs up to the next base line matched on both sides
+        let next = b;
+        while (next < baseLines.length && (toOurs[next] === undefined || toTheirs[next] === undefined)) {
+            next++;
+        }
+
+        const oursEnd = next < baseLines.length ? toOurs[next]! : oursLines.length;
+        const theirsEnd = next < baseLines.length ? toTheirs[next]! : theirsLines.length;
+        const baseChunk = baseLines.slice(b, next);
+        const oursChunk = oursLines.slice(o, oursEnd);
+        const theirsChunk = theirsLines.slice(t, theirsEnd);
+
+        if (sameLines(oursChunk, baseChunk)) {
+            emit(theirsChunk);
+        } else if (sameLines(theirsChunk, baseChunk) || sameLines(oursChunk, theirsChunk)) {
+            emit(oursChunk);
+        } else {
+            const conflict: MergeConflict = {
+                index: conflicts.length,
+                // 1-based line in the current text where the conflict starts
+                line: o + 1,
+                base: baseChunk,
+                ours: oursChunk,
+                theirs: theirsChunk
+            };
+            conflicts.push(conflict);
+            segments.push(conflict);
+        }
+
+        b = next;
+        o = oursEnd;
+        t = theirsEnd;
+    }
+
+    return { clean: conflicts.length === 0, segments, conflicts };
+}
+
+/**
+ * Renders a merge result to text, resolving each conflict as requested.
+ * Conflicts without a resolution are written with git-style conflict markers.
+ *
+ * @param merge - Result of mergeThreeWay
+ * @param resolutions - Resolution per conflict index
+ * @returns Merged text
+ */
+export function renderMerge(merge: MergeResult, resolutions: MergeResolution[] = []): string {
+    const lines: string[] = [];
+
+    for (const segment of merge.segments) {
+        if (Array.isArray(segment)) {
+            lines.push(...segment);
+            continue;
+        }
+
+        switch (resolutions[segment.index]) {
+            case 'ours':
+                lines.push(...segment.ours);
+                break;
+            case 'theirs':
+                lines.push(...segment.theirs);
+                break;
+            case 'both':
+                lines.push(...segment.ours, ...segment.theirs);
+                break;
+            default:
+                lines.push('<<<<<<< current', ...segment.ours, '||||||| base', ...segment.base,
+                    '=======', ...segment.theirs, '>>>>>>> patch');
+        }
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Maps each base line index to its matching line index on the other side (LCS).
+ */
+function matchLines(base: string[], other: string[]): Array<number | undefined> {
+    const mapping: Array<number | undefined> = new Array(base.length).fill(undefined);
+
+    for (const op of computeLineDiff(base, other)) {
+        if (op.type === 'equal') {
+            mapping[op.oldIndex] = op.newIndex;
+        }
+    }
+
+    return mapping;
+}
+
+/**
+ * Compares two line arrays for equality.
+ */
+function sameLines(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((line, i) => line === b[i]);
+}
@@ -2,6 +2,32 @@
 // This module defines shared TypeScript interfaces and types used throughout the extension.
 // These types represent core data structures like conflicts, patches, and dependency information.
 
+/**
+ * A position in a file; line and column are 1-based.
+ */
+export interface SourcePosition {
+    line: number;
+    column: number;
+}
+
+/**
+ * A span in a file, the end exclusive.
+ */
+export interface SourceRange {
+    start: SourcePosition;
+    end: SourcePosition;
+}
+
+/**
+ * Another location a diagnostic points at, e.g. "'name' is declared here".
+ */
+export interface RelatedLocation {
+    filePath: string;
+    lineNumber: number;
+    range?: SourceRange;
+    message: string;
+}
+
 /**
  * Represents a conflict detected during migration.
  */
@@ -10,6 +36,31 @@ export interface Conflict {
     lineNumber: number;
     message: string;
     severity: 'error' | 'warning' | 'info';
+    /** TypeScript diagnostic code (e.g. 2305), when known */
+    code?: number;
+    /** Character offset where the diagnostic's span starts */
+    start?: number;
+    /** Character offset where the diagnostic's span ends (exclusive) */
+    end?: number;
+    /** Lines and columns of the span */
+    range?: SourceRange;
+    /**
+     * The whole message chain, one level per line and indented the way tsc prints it.
+     * `message` only holds the first line; absent when there is nothing more.
+     */
+    messageChain?: string;
+    /** Other locations the diagnostic refers to */
+    relatedInformation?: RelatedLocation[];
+    /** Numbered source lines around the error, captured when it was diagnosed */
+    excerpt?: string;
+    /** Syntax kind of the AST node enclosing the span (e.g. 'ImportSpecifier') */
+    nodeKind?: string;
+    /** Module specifier of the import the span is in or refers to (e.g. '@angular/http') */
+    moduleSpecifier?: string;
+    /** Set to 'template' for Angular template diagnostics from ngtsc; absent for TypeScript ones */
+    source?: 'template';
+    /** tsconfig of the program that reported the diagnostic, relative to the project root */
+    program?: string;
 }
 
 /**
@@ -20,6 +71,104 @@ export interface Patch {
     description: string;
     filePath: string;
     source: 'llm' | 'auto' | 'manual' | 'pattern';
+    /** The conflict this patch is meant to fix, used to verify it before writing */
+    targetConflict?: Conflict;
+    /** Full text of the file the diff was generated against, enabling three-way merges */
+    baseContent?: string;
+    /** How likely the patch is correct, from 0 to 1; confident patches may be applied without review */
+    confidence?: number;
+    /** Why a patch confident enough to be applied automatically is shown for review instead */
+    reviewReason?: string;
+}
+
+/**
+ * One file's section of a (possibly multi-file) unified diff.
+ */
+export interface FilePatch {
+    operation: 'modify' | 'create' | 'delete' | 'rename';
+    /** Path before the change (null for created files) */
+    oldPath: string | null;
+    /** Path after the change (null for deleted files) */
+    newPath: string | null;
+    /** The diff text for this file only, including its headers */
+    diff: string;
+}
+
+/**
+ * Outcome of applying a single hunk of a unified-diff patch.
+ */
+export interface HunkResult {
+    index: number;
+    status: 'applied' | 'applied-with-offset' | 'rejected';
+    /** Line number (1-based) the hunk header expected */
+    expectedLine: number;
+    /** Line number (1-based) the hunk was actually applied at, if applied */
+    appliedLine?: number;
+    /** Difference between the applied and expected line */
+    offset: number;
+    /** Number of context lines ignored at each end to make the hunk match */
+    fuzz: number;
+    reason?: string;
+}
+
+/**
+ * Result of checking a patch against the in-memory TypeScript project before writing it.
+ */
+export interface VerificationResult {
+    passed: boolean;
+    /** Errors present after the change that were not present before */
+    newErrors: Conflict[];
+    /** Number of errors in the checked files that the change removes */
+    resolvedErrors: number;
+    /** Whether the targeted conflict disappears (undefined when there is no target) */
+    targetResolved?: boolean;
+    /** Number of files (changed files plus their dependents) re-diagnosed */
+    checkedFiles: number;
+}
+
+/**
+ * A region changed differently by the current file and by a patch.
+ */
+export interface MergeConflict {
+    index: number;
+    /** 1-based line in the current file where the conflict starts */
+    line: number;
+    base: string[];
+    ours: string[];
+    theirs: string[];
+}
+
+/**
+ * How the user chose to resolve a merge conflict.
+ * `ours` keeps the current file, `theirs` takes the patch, `both` keeps current then patch.
+ */
+export type MergeResolution = 'ours' | 'theirs' | 'both';
+
+/**
+ * Result of a three-way merge: stable line runs interleaved with conflicts.
+ */
+export interface MergeResult {
+    clean: boolean;
+    segments: Array<string[] | MergeConflict>;
+    conflicts: MergeConflict[];
+}
+
+/**
+ * Result of applying a patch to a file, with per-hunk outcomes.
+ */
+export interface PatchResult {
+    success: boolean;
+    filePath: string;
+    hunks: HunkResult[];
+    error?: string;
+    /** Per-file results when the patch touched several files */
+    files?: PatchResult[];
+    /** Speculative verification outcome, when verification ran */
+    verification?: VerificationResult;
+    /** Three-way merge left for manual resolution when hunks no longer matched */
+    merge?: MergeResult;
+    /** Id of the patch journal entry recording this change */
+    journalId?: string;
 }
 
 /**
@@ -52,5 +201,7 @@ export interface MigrationConfig {
     useLLM: boolean;
     llmProvider?: 'copilot' | 'gemini' | 'other';
     autoApplyPatches: boolean;
+    /** Minimum confidence for a patch to be applied without review when `autoApplyPatches` is on */
+    autoApplyThreshold: number;
     createGitBranch: boolean;
 }
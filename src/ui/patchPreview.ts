@@ -0,0 +1,112 @@
+// patchPreview.ts
+// This module opens pending patches in VS Code's native diff editor.
+// Patched content is served from a virtual document scheme, so reviewers get
+// syntax highlighting and full-file context without anything being written.
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { previewPatch } from '../patcher';
+import { logError } from '../logger';
+import { Patch } from '../types';
+
+/**
+ * URI scheme of the virtual documents holding patched content.
+ */
+export const PREVIEW_SCHEME = 'angular-upgrade-preview';
+
+/**
+ * Serves patched file content for preview URIs.
+ */
+class PatchPreviewProvider implements vscode.TextDocumentContentProvider {
+    private readonly contents = new Map<string, string>();
+    private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+    readonly onDidChange = this.changeEmitter.event;
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) ?? '';
+    }
+
+    setContent(uri: vscode.Uri, content: string): void {
+        this.contents.set(uri.toString(), content);
+        this.changeEmitter.fire(uri);
+    }
+
+    release(uri: vscode.Uri): void {
+        this.contents.delete(uri.toString());
+    }
+}
+
+let provider: PatchPreviewProvider | undefined;
+let previewCounter = 0;
+
+/**
+ * Registers the preview content provider. Should be called during extension activation.
+ *
+ * @param context - Extension context that owns the registration
+ */
+export function registerPatchPreview(context: vscode.ExtensionContext): void {
+    const previewProvider = new PatchPreviewProvider();
+    provider = previewProvider;
+
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, previewProvider),
+        // Drop the content of previews once their editors are closed
+        vscode.workspace.onDidCloseTextDocument(document => {
+            if (document.uri.scheme === PREVIEW_SCHEME) {
+                previewProvider.release(document.uri);
+            }
+        })
+    );
+}
+
+/**
+ * Opens a side-by-side diff of each file a patch touches: the real file on the
+ * left, the content after the patch on the right.
+ *
+ * @param patch - Patch to preview
+ */
+export async function showPatchPreview(patch: Patch): Promise<void> {
+    if (!provider) {
+        logError('Patch preview is not available - content provider not registered');
+        return;
+    }
+
+    const { changes, error } = previewPatch(patch.filePath, patch);
+    if (error) {
+        vscode.window.showWarningMessage(`Angular Upgrade Assistant: Cannot preview patch - ${error}`);
+        return;
+    }
+
+    // A fresh query per preview keeps earlier previews of the same file intact
+    const id = ++previewCounter;
+
+    for (const change of changes) {
+        const sourcePath = change.renamedFrom ?? change.filePath;
+        const exists = fs.existsSync(sourcePath);
+
+        // Using the real file (not a copy) shows unsaved editor changes the patch will apply to
+        const left = exists ? vscode.Uri.file(sourcePath) : createPreviewUri(sourcePath, `original-${id}`, '');
+        const right = createPreviewUri(change.filePath, `patched-${id}`, change.content ?? '');
+
+        const name = change.renamedFrom
+            ? `${path.basename(change.renamedFrom)} → ${path.basename(change.filePath)}`
+            : path.basename(change.filePath);
+        const state = change.content === null ? 'deleted' : exists ? 'patched' : 'created';
+
+        await vscode.commands.executeCommand('vscode.diff', left, right, `${name} (${state})`, {
+            preview: changes.length === 1
+        });
+    }
+}
+
+/**
+ * Builds a preview URI that keeps the file's path, so the language is detected
+ * from its extension, and stores the content to serve for it.
+ */
+function createPreviewUri(filePath: string, query: string, content: string): vscode.Uri {
+    const uri = vscode.Uri.file(filePath).with({ scheme: PREVIEW_SCHEME, query });
+    provider!.setContent(uri, content);
+    return uri;
+}
@@ -0,0 +1,318 @@
+// problemsPanel.ts
+// This module publishes migration conflicts to VS Code's Problems panel and offers
+// quick fixes for them in the editor lightbulb: the matching pattern fix, or a request
+// to the LLM. After the automated pass, developers can work through the remaining
+// errors file by file; the problems of a file are re-checked when it is fixed or saved.
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ErrorCluster, ErrorClusterer } from '../errorClustering/ErrorClusterer';
+import { PatternMatcher } from '../errorClustering/PatternMatcher';
+import { formatDiagnosticCode } from '../ast/templateDiagnostics';
+import { getAngularAST } from '../initializeWorkspace';
+import { applyPatch } from '../patcher';
+import { showPatchPreview } from './patchPreview';
+import { logInfo, logError } from '../logger';
+import { Conflict, Patch, SourceRange } from '../types';
+
+/** Name of the diagnostic collection and source shown next to each problem */
+export const DIAGNOSTIC_SOURCE = 'Angular Upgrade';
+
+const APPLY_PATTERN_FIX_COMMAND = 'angularUpgrade.applyPatternFix';
+const ASK_LLM_COMMAND = 'angularUpgrade.askLLMToFix';
+
+/**
+ * What the quick fixes need from the migration that found the conflicts.
+ */
+export interface ProblemFixContext {
+    rootPath: string;
+    versions: { from: string | null; to: string | null };
+    /** Matcher of the migration run; a new one is created from the versions otherwise */
+    patternMatcher?: PatternMatcher;
+}
+
+/**
+ * Offers the pattern fix and the LLM fix for published conflicts.
+ */
+class ConflictCodeActionProvider implements vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    provideCodeActions(document: vscode.TextDocument, _range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+
+        for (const diagnostic of context.diagnostics.filter(d => d.source === DIAGNOSTIC_SOURCE)) {
+            const conflict = findConflict(document.uri.fsPath, diagnostic);
+            if (!conflict) continue;
+
+            const pattern = getPatternMatcher()?.matchPattern(singleCluster(conflict));
+            if (pattern) {
+                const action = new vscode.CodeAction(`Fix with "${pattern.name}"`, vscode.CodeActionKind.QuickFix);
+                action.diagnostics = [diagnostic];
+                action.isPreferred = true;
+                action.command = { command: APPLY_PATTERN_FIX_COMMAND, title: action.title, arguments: [conflict] };
+                actions.push(action);
+            }
+
+            const askLLM = new vscode.CodeAction('Ask LLM to fix', vscode.CodeActionKind.QuickFix);
+            askLLM.diagnostics = [diagnostic];
+            askLLM.command = { command: ASK_LLM_COMMAND, title: askLLM.title, arguments: [conflict] };
+            actions.push(askLLM);
+        }
+
+        return actions;
+    }
+}
+
+let collection: vscode.DiagnosticCollection | undefined;
+/** Published conflicts per file, with the diagnostic shown for each */
+const published = new Map<string, Array<{ diagnostic: vscode.Diagnostic; conflict: Conflict }>>();
+let fixContext: ProblemFixContext | undefined;
+let patternMatcher: PatternMatcher | undefined;
+
+/**
+ * Creates the "Angular Upgrade" diagnostic collection and registers the quick fixes.
+ * Should be called during extension activation.
+ *
+ * @param context - Extension context that owns the registrations
+ */
+export function registerProblemsPanel(context: vscode.ExtensionContext): void {
+    collection = vscode.languages.createDiagnosticCollection(DIAGNOSTIC_SOURCE);
+
+    context.subscriptions.push(
+        collection,
+        vscode.languages.registerCodeActionsProvider(
+            [{ scheme: 'file', language: 'typescript' }, { scheme: 'file', language: 'html' }],
+            new ConflictCodeActionProvider(),
+            { providedCodeActionKinds: ConflictCodeActionProvider.providedCodeActionKinds }
+        ),
+        vscode.commands.registerCommand(APPLY_PATTERN_FIX_COMMAND, applyPatternFix),
+        vscode.commands.registerCommand(ASK_LLM_COMMAND, askLLMToFix),
+        // Positions and errors of a saved file may have changed; check it again
+        vscode.workspace.onDidSaveTextDocument(document => {
+            if (published.has(path.normalize(document.uri.fsPath))) {
+                refreshConflicts([document.uri.fsPath]).catch(error => logError('Failed to refresh problems', error));
+            }
+        })
+    );
+}
+
+/**
+ * Replaces the problems shown for the migration with the given conflicts.
+ *
+ * @param conflicts - Conflicts to show; an empty list clears the Problems panel entries
+ * @param context - Migration details the quick fixes need; kept from the previous call if omitted
+ */
+export function publishConflicts(conflicts: Conflict[], context?: ProblemFixContext): void {
+    if (context) {
+        fixContext = context;
+        patternMatcher = context.patternMatcher;
+    }
+
+    published.clear();
+    collection?.clear();
+    setFileConflicts(conflicts);
+
+    logInfo(`Published ${conflicts.length} problem(s) in ${published.size} file(s) to the Problems panel`);
+}
+
+/**
+ * Re-diagnoses changed files and the files depending on them, and updates their problems.
+ * Template problems of files that did not change are kept, as they are only re-checked by a full run.
+ *
+ * @param filePaths - Files that changed
+ */
+async function refreshConflicts(filePaths: string[]): Promise<void> {
+    const angularAST = getAngularAST();
+    if (!angularAST) {
+        return;
+    }
+
+    const { rediagnoseFiles } = await import('../analyzer');
+    angularAST.refreshChangedFiles();
+
+    // Cached diagnostics make re-checking every file with problems cheap
+    const changed = new Set(filePaths.map(filePath => path.normalize(filePath)));
+    const checked = new Set([...changed, ...published.keys()]);
+    const conflicts = await rediagnoseFiles(Array.from(checked));
+
+    const keptTemplates = Array.from(published.entries())
+        .filter(([filePath]) => !changed.has(filePath))
+        .flatMap(([, entries]) => entries.map(entry => entry.conflict).filter(conflict => conflict.source === 'template'));
+
+    for (const filePath of checked) {
+        published.delete(filePath);
+        collection?.delete(vscode.Uri.file(filePath));
+    }
+    setFileConflicts([...conflicts, ...keptTemplates]);
+}
+
+/**
+ * Adds conflicts to the collection, replacing the problems of the files they are in.
+ */
+function setFileConflicts(conflicts: Conflict[]): void {
+    const byFile = new Map<string, Conflict[]>();
+    for (const conflict of conflicts.filter(c => c.filePath)) {
+        const filePath = path.normalize(conflict.filePath);
+        byFile.set(filePath, [...(byFile.get(filePath) ?? []), conflict]);
+    }
+
+    for (const [filePath, fileConflicts] of byFile) {
+        // Only spans without a range are located through the file text
+        const text = fileConflicts.some(c => !c.range && c.start !== undefined) ? readText(filePath) : null;
+        const entries = fileConflicts.map(conflict => ({ diagnostic: toDiagnostic(conflict, text), conflict }));
+
+        published.set(filePath, entries);
+        collection?.set(vscode.Uri.file(filePath), entries.map(entry => entry.diagnostic));
+    }
+}
+
+/**
+ * Applies the pattern fix matching a conflict and re-checks the files it changed.
+ */
+async function applyPatternFix(conflict: Conflict): Promise<void> {
+    const matcher = getPatternMatcher();
+    const cluster = singleCluster(conflict);
+    const pattern = matcher?.matchPattern(cluster);
+    if (!matcher || !pattern) {
+        vscode.window.showWarningMessage('Angular Upgrade Assistant: No pattern fix matches this problem anymore.');
+        return;
+    }
+
+    const patches = matcher.generateFixes(cluster, pattern);
+    if (patches.length === 0) {
+        vscode.window.showWarningMessage(`Angular Upgrade Assistant: "${pattern.name}" has nothing to change here.`);
+        return;
+    }
+
+    await applyPatches(patches, pattern.name);
+}
+
+/**
+ * Asks the LLM for a fix, previews the verified patches and applies them once confirmed.
+ */
+async function askLLMToFix(conflict: Conflict): Promise<void> {
+    const { isLLMAvailable } = await import('../llmClient');
+    if (!fixContext || !await isLLMAvailable()) {
+        vscode.window.showWarningMessage('Angular Upgrade Assistant: No LLM is available - configure a provider first.');
+        return;
+    }
+
+    const { fixClusterWithLLM } = await import('../clusterFix');
+    const { consolidateDocs } = await import('../docFetcher');
+    const results = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Angular Upgrade: Asking the LLM for a fix...' },
+        async () => {
+            const docs = await consolidateDocs('@angular/core', fixContext!.versions.from || '18.0.0', fixContext!.versions.to || '19.0.0');
+            return fixClusterWithLLM(singleCluster(conflict), { rootPath: fixContext!.rootPath, docs, patternMatcher: getPatternMatcher()! });
+        }
+    );
+
+    const patches = results.flatMap(result => result.patches);
+    if (patches.length === 0) {
+        vscode.window.showWarningMessage(`Angular Upgrade Assistant: The LLM fix could not be verified - ${results[0]?.error ?? 'no patch returned'}.`);
+        return;
+    }
+
+    for (const patch of patches) {
+        await showPatchPreview(patch);
+    }
+    const choice = await vscode.window.showInformationMessage(
+        `Angular Upgrade Assistant: Apply the LLM fix (${patches.length} patch(es))?`, 'Apply', 'Discard');
+    if (choice === 'Apply') {
+        await applyPatches(patches, 'LLM fix');
+    }
+}
+
+async function applyPatches(patches: Patch[], label: string): Promise<void> {
+    const changed: string[] = [];
+
+    for (const patch of patches) {
+        const result = await applyPatch(patch.filePath, patch);
+        if (result.success) {
+            changed.push(patch.filePath);
+        } else {
+            vscode.window.showErrorMessage(`Angular Upgrade Assistant: ${label} could not be applied to ${path.basename(patch.filePath)} - ${result.error}`);
+        }
+    }
+
+    if (changed.length > 0) {
+        logInfo(`Applied ${label} from the Problems panel to ${changed.length} file(s)`);
+        await refreshConflicts(changed);
+    }
+}
+
+function getPatternMatcher(): PatternMatcher | undefined {
+    if (!patternMatcher && fixContext) {
+        patternMatcher = new PatternMatcher(fixContext.rootPath, fixContext.versions);
+    }
+    return patternMatcher;
+}
+
+/**
+ * Finds the conflict a diagnostic of the collection was created from.
+ */
+function findConflict(filePath: string, diagnostic: vscode.Diagnostic): Conflict | undefined {
+    return published.get(path.normalize(filePath))?.find(entry =>
+        entry.diagnostic.message === diagnostic.message && entry.diagnostic.range.isEqual(diagnostic.range))?.conflict;
+}
+
+function singleCluster(conflict: Conflict): ErrorCluster {
+    return new ErrorClusterer().clusterErrors([conflict])[0];
+}
+
+function toDiagnostic(conflict: Conflict, text: string | null): vscode.Diagnostic {
+    const severity = conflict.severity === 'error'
+        ? vscode.DiagnosticSeverity.Error
+        : conflict.severity === 'warning' ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Information;
+
+    const diagnostic = new vscode.Diagnostic(toRange(conflict, text), conflict.messageChain ?? conflict.message, severity);
+    diagnostic.source = DIAGNOSTIC_SOURCE;
+    if (conflict.code !== undefined) {
+        diagnostic.code = formatDiagnosticCode(conflict.code);
+    }
+    diagnostic.relatedInformation = conflict.relatedInformation
+        ?.filter(related => related.filePath)
+        .map(related => new vscode.DiagnosticRelatedInformation(
+            new vscode.Location(vscode.Uri.file(related.filePath), related.range
+                ? fromSourceRange(related.range)
+                : new vscode.Position(related.lineNumber - 1, 0)),
+            related.message));
+    return diagnostic;
+}
+
+/**
+ * The conflict's span when it has one, otherwise its whole line.
+ */
+function toRange(conflict: Conflict, text: string | null): vscode.Range {
+    if (conflict.range) {
+        return fromSourceRange(conflict.range);
+    }
+    if (text !== null && conflict.start !== undefined) {
+        return new vscode.Range(offsetToPosition(text, conflict.start), offsetToPosition(text, conflict.end ?? conflict.start));
+    }
+
+    const line = Math.max(0, conflict.lineNumber - 1);
+    return new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER);
+}
+
+function fromSourceRange(range: SourceRange): vscode.Range {
+    return new vscode.Range(range.start.line - 1, range.start.column - 1, range.end.line - 1, range.end.column - 1);
+}
+
+function offsetToPosition(text: string, offset: number): vscode.Position {
+    const before = text.slice(0, offset);
+    const line = before.split('\n').length - 1;
+    return new vscode.Position(line, offset - (before.lastIndexOf('\n') + 1));
+}
+
+/**
+ * Text the conflict offsets refer to: the program's copy of a TypeScript file, or the file on disk.
+ */
+function readText(filePath: string): string | null {
+    const sourceFile = getAngularAST()?.getProject(filePath)?.getSourceFile(filePath);
+    if (sourceFile) {
+        return sourceFile.getFullText();
+    }
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+}
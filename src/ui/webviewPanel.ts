@@ -3,9 +3,14 @@
 // patches, logs, and interactive controls to the user.
 
 import * as vscode from 'vscode';
-import { Patch, MigrationStep } from '../types';
+import { Patch, MigrationStep, MergeResult, MergeResolution } from '../types';
+import { splitMultiFileDiff, isMultiFileDiff } from '../patcher';
+import { showPatchPreview } from './patchPreview';
+import { AngularInventory } from '../ast/angularInventory';
 
 let currentPanel: vscode.WebviewPanel | undefined;
+let shownPatches: Patch[] = [];
+let shownInventory: AngularInventory | undefined;
 
 /**
  * Creates and shows the main migration WebView panel.
@@ -70,14 +75,41 @@ export function updateProgress(panel: vscode.WebviewPanel, steps: MigrationStep[
 
 /**
  * Displays patch suggestions in the WebView for user review.
+ * Multi-file patches are sent with their per-file sections so they render as a group.
  * 
  * @param panel - The WebView panel
  * @param patches - Array of patches to display
  */
 export function showPatches(panel: vscode.WebviewPanel, patches: Patch[]): void {
+    shownPatches = patches;
     panel.webview.postMessage({
         command: 'showPatches',
-        patches: patches
+        patches: patches.map(patch => isMultiFileDiff(patch.diff)
+            ? { ...patch, files: splitMultiFileDiff(patch.diff) }
+            : patch)
+    });
+}
+
+/**
+ * Returns the patches most recently shown for review (e.g. for export).
+ */
+export function getShownPatches(): Patch[] {
+    return shownPatches;
+}
+
+/**
+ * Displays three-way merge conflicts of a patch so the user can resolve them.
+ * 
+ * @param panel - The WebView panel
+ * @param patch - The patch that could not be merged cleanly
+ * @param merge - Merge result holding the conflicts
+ */
+export function showMergeConflicts(panel: vscode.WebviewPanel, patch: Patch, merge: MergeResult): void {
+    panel.webview.postMessage({
+        command: 'showMergeConflicts',
+        filePath: patch.filePath,
+        description: patch.description,
+        conflicts: merge.conflicts
     });
 }
 
@@ -94,6 +126,34 @@ export function showSummary(panel: vscode.WebviewPanel, summary: any): void {
     });
 }
 
+/**
+ * Displays the Angular artifact inventory, grouped by kind.
+ * 
+ * @param panel - The WebView panel
+ * @param inventory - Inventory built by AngularAST
+ */
+export function showInventory(panel: vscode.WebviewPanel, inventory: AngularInventory): void {
+    shownInventory = inventory;
+    panel.webview.postMessage({
+        command: 'showInventory',
+        inventory: inventory
+    });
+}
+
+/**
+ * Opens the inventory most recently shown as a JSON document.
+ */
+export async function openInventoryAsJson(inventory: AngularInventory | undefined = shownInventory): Promise<void> {
+    if (!inventory) {
+        return;
+    }
+    const document = await vscode.workspace.openTextDocument({
+        language: 'json',
+        content: JSON.stringify(inventory, null, 2)
+    });
+    await vscode.window.showTextDocument(document, { preview: false });
+}
+
 /**
  * Handles messages received from the WebView.
  * 
@@ -109,6 +169,28 @@ function handleWebviewMessage(message: any): void {
             handlePatchApproval(message.patchIndex, false);
             break;
 
+        case 'resolveMerge':
+            handleMergeResolution(message.resolutions);
+            break;
+
+        case 'skipMerge':
+            handleMergeResolution(null);
+            break;
+
+        case 'previewPatch':
+            if (shownPatches[message.patchIndex]) {
+                showPatchPreview(shownPatches[message.patchIndex]);
+            }
+            break;
+
+        case 'exportPatches':
+            vscode.commands.executeCommand('angularUpgrade.exportPatches', 'shown');
+            break;
+
+        case 'openInventoryJson':
+            openInventoryAsJson();
+            break;
+
         case 'retryMigration':
             handleRetryMigration();
             break;
@@ -148,6 +230,32 @@ function handlePatchApproval(patchIndex: number, approved: boolean): void {
     }
 }
 
+// Callback storage for merge conflict resolutions
+let mergeResolutionCallback: ((resolutions: MergeResolution[] | null) => void) | undefined;
+
+/**
+ * Waits for the user to resolve the merge conflicts currently shown.
+ * 
+ * @returns Promise resolving to one resolution per conflict, or null if the user skipped the patch
+ */
+export function waitForMergeResolution(): Promise<MergeResolution[] | null> {
+    return new Promise((resolve) => {
+        mergeResolutionCallback = (resolutions) => {
+            resolve(resolutions);
+            mergeResolutionCallback = undefined;
+        };
+    });
+}
+
+/**
+ * Handles merge resolution/skip from user.
+ */
+function handleMergeResolution(resolutions: MergeResolution[] | null): void {
+    if (mergeResolutionCallback) {
+        mergeResolutionCallback(resolutions);
+    }
+}
+
 /**
  * Handles retry migration request.
  */
@@ -247,6 +355,67 @@ function getWebviewContent(): string {
             margin: 10px 0;
         }
         
+        .patch-file {
+            margin: 10px 0;
+            padding-left: 10px;
+            border-left: 2px solid var(--vscode-panel-border);
+        }
+        
+        .file-operation {
+            display: inline-block;
+            margin-right: 8px;
+            padding: 1px 6px;
+            font-size: 0.8em;
+            text-transform: uppercase;
+            background-color: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+            border-radius: 3px;
+        }
+        
+        .confidence {
+            font-size: 0.85em;
+            opacity: 0.8;
+        }
+        
+        .auto-applied {
+            margin-top: 20px;
+        }
+        
+        .unfixed-instances,
+        .cluster-progress {
+            margin-top: 20px;
+        }
+        
+        .unfixed-reason,
+        .review-reason {
+            font-size: 0.85em;
+            opacity: 0.8;
+        }
+        
+        .conflict-details {
+            margin: 8px 0;
+            font-size: 0.9em;
+        }
+        
+        .conflict-details pre {
+            background-color: var(--vscode-textCodeBlock-background);
+            padding: 6px;
+            overflow-x: auto;
+            white-space: pre-wrap;
+        }
+        
+        .merge-conflict {
+            margin: 15px 0;
+            padding: 10px;
+            border-left: 4px solid var(--vscode-terminal-ansiYellow);
+            background-color: var(--vscode-textCodeBlock-background);
+        }
+        
+        .merge-side-label {
+            font-size: 0.85em;
+            opacity: 0.8;
+        }
+        
         .diff-addition { color: var(--vscode-terminal-ansiGreen); }
         .diff-removal { color: var(--vscode-terminal-ansiRed); }
         .diff-context { color: var(--vscode-foreground); opacity: 0.7; }
@@ -283,6 +452,25 @@ function getWebviewContent(): string {
             border-radius: 4px;
         }
         
+        .inventory-kind { margin-top: 15px; }
+        
+        .inventory-artifact {
+            margin: 4px 0;
+            padding: 6px 10px;
+            border-left: 3px solid var(--vscode-textLink-foreground);
+        }
+        
+        .inventory-artifact dl {
+            display: grid;
+            grid-template-columns: max-content 1fr;
+            gap: 2px 12px;
+            margin: 6px 0 0;
+            font-size: 0.9em;
+        }
+        
+        .inventory-artifact dt { opacity: 0.7; }
+        .inventory-artifact dd { margin: 0; font-family: var(--vscode-editor-font-family); }
+        
         .hidden { display: none; }
     </style>
 </head>
@@ -298,6 +486,19 @@ function getWebviewContent(): string {
         <h2>Patch Review</h2>
         <p>Review and approve the following patches:</p>
         <div id="patchesList"></div>
+        <div style="margin-top: 20px;">
+            <button class="btn-secondary" onclick="exportPatches()">Export as .patch…</button>
+        </div>
+    </div>
+    
+    <div id="mergeSection" class="section hidden">
+        <h2>Resolve Merge Conflicts</h2>
+        <p id="mergeInfo"></p>
+        <div id="mergeConflicts"></div>
+        <div style="margin-top: 20px;">
+            <button class="btn-primary" onclick="resolveMerge()">Apply Resolution</button>
+            <button class="btn-secondary" onclick="skipMerge()">Skip Patch</button>
+        </div>
     </div>
     
     <div id="summarySection" class="section hidden">
@@ -309,6 +510,15 @@ function getWebviewContent(): string {
         </div>
     </div>
     
+    <div id="inventorySection" class="section hidden">
+        <h2>Angular Inventory</h2>
+        <p id="inventoryInfo"></p>
+        <div id="inventoryContent"></div>
+        <div style="margin-top: 20px;">
+            <button class="btn-secondary" onclick="openInventoryJson()">Open as JSON</button>
+        </div>
+    </div>
+    
     <script>
         const vscode = acquireVsCodeApi();
         
@@ -324,20 +534,30 @@ function getWebviewContent(): string {
                     showPatchesDisplay(message.patches);
                     break;
                 
+                case 'showMergeConflicts':
+                    showMergeConflictsDisplay(message);
+                    break;
+                
                 case 'showSummary':
                     showSummaryDisplay(message.summary);
                     break;
+                
+                case 'showInventory':
+                    showInventoryDisplay(message.inventory);
+                    break;
             }
         });
         
         function updateProgressDisplay(steps) {
+            document.getElementById('inventorySection').classList.add('hidden');
+            document.getElementById('progressSection').classList.remove('hidden');
             const container = document.getElementById('progressSteps');
             container.innerHTML = steps.map(step => {
                 const icon = getStatusIcon(step.status);
                 return \`
                     <div class="step step-\${step.status}">
                         <span class="step-icon">\${icon}</span>
-                        <span><strong>\${step.name}</strong>: \${step.description}</span>
+                        <span><strong>\${escapeHtml(step.name)}</strong>: \${escapeHtml(step.description)}</span>
                     </div>
                 \`;
             }).join('');
@@ -354,40 +574,115 @@ function getWebviewContent(): string {
         
         function showPatchesDisplay(patches) {
             document.getElementById('progressSection').classList.add('hidden');
+            document.getElementById('inventorySection').classList.add('hidden');
             document.getElementById('patchesSection').classList.remove('hidden');
             
             const container = document.getElementById('patchesList');
             container.innerHTML = patches.map((patch, index) => {
+                const title = patch.files ? \`\${patch.files.length} files\` : patch.filePath;
+                const body = patch.files
+                    ? patch.files.map(formatFilePatch).join('')
+                    : \`<div class="patch-diff">\${formatDiff(patch.diff)}</div>\`;
                 return \`
                     <div class="patch">
                         <div class="patch-header">
-                            <strong>\${patch.filePath}</strong>
+                            <strong>\${escapeHtml(title)}</strong>
+                            \${formatConfidence(patch.confidence)}
                         </div>
-                        <p>\${patch.description}</p>
-                        <div class="patch-diff">\${formatDiff(patch.diff)}</div>
+                        <p>\${escapeHtml(patch.description)}</p>
+                        \${patch.reviewReason ? \`<p class="review-reason">Not applied automatically: \${escapeHtml(patch.reviewReason)}</p>\` : ''}
+                        \${formatConflict(patch.targetConflict)}
+                        \${body}
                         <div>
                             <button class="btn-primary" onclick="approvePatch(\${index})">✓ Approve</button>
                             <button class="btn-secondary" onclick="rejectPatch(\${index})">✗ Reject</button>
+                            <button class="btn-secondary" onclick="previewPatch(\${index})">⇆ Preview</button>
                         </div>
                     </div>
                 \`;
             }).join('');
         }
         
+        function formatConfidence(confidence) {
+            return confidence === undefined
+                ? ''
+                : \`<span class="confidence">\${Math.round(confidence * 100)}% confidence</span>\`;
+        }
+        
+        function formatFilePatch(file) {
+            const label = file.operation === 'rename'
+                ? \`\${file.oldPath} → \${file.newPath}\`
+                : (file.newPath || file.oldPath);
+            return \`
+                <div class="patch-file">
+                    <span class="file-operation">\${escapeHtml(file.operation)}</span><strong>\${escapeHtml(label)}</strong>
+                    <div class="patch-diff">\${formatDiff(file.diff)}</div>
+                </div>
+            \`;
+        }
+        
         function formatDiff(diff) {
             return diff.split('\\n').map(line => {
                 if (line.startsWith('+')) {
-                    return \`<span class="diff-addition">\${line}</span>\`;
+                    return \`<span class="diff-addition">\${escapeHtml(line)}</span>\`;
                 } else if (line.startsWith('-')) {
-                    return \`<span class="diff-removal">\${line}</span>\`;
+                    return \`<span class="diff-removal">\${escapeHtml(line)}</span>\`;
                 } else {
-                    return \`<span class="diff-context">\${line}</span>\`;
+                    return \`<span class="diff-context">\${escapeHtml(line)}</span>\`;
                 }
             }).join('\\n');
         }
         
+        let mergeConflictCount = 0;
+        
+        function showMergeConflictsDisplay(message) {
+            document.getElementById('patchesSection').classList.add('hidden');
+            document.getElementById('mergeSection').classList.remove('hidden');
+            
+            mergeConflictCount = message.conflicts.length;
+            document.getElementById('mergeInfo').innerHTML =
+                \`<strong>\${escapeHtml(message.filePath)}</strong> changed since this patch was generated: \${escapeHtml(message.description)}\`;
+            
+            const container = document.getElementById('mergeConflicts');
+            container.innerHTML = message.conflicts.map(conflict => {
+                const name = 'conflict-' + conflict.index;
+                return \`
+                    <div class="merge-conflict">
+                        <strong>Conflict \${conflict.index + 1} at line \${conflict.line}</strong>
+                        <div class="merge-side-label">Current file</div>
+                        <div class="patch-diff">\${formatLines(conflict.ours, '-')}</div>
+                        <div class="merge-side-label">Patch</div>
+                        <div class="patch-diff">\${formatLines(conflict.theirs, '+')}</div>
+                        <label><input type="radio" name="\${name}" value="ours"> Keep current</label>
+                        <label><input type="radio" name="\${name}" value="theirs" checked> Use patch</label>
+                        <label><input type="radio" name="\${name}" value="both"> Keep both</label>
+                    </div>
+                \`;
+            }).join('');
+        }
+        
+        function formatLines(lines, prefix) {
+            return formatDiff(lines.map(line => prefix + line).join('\\n'));
+        }
+        
+        function resolveMerge() {
+            const resolutions = [];
+            for (let i = 0; i < mergeConflictCount; i++) {
+                const checked = document.querySelector(\`input[name="conflict-\${i}"]:checked\`);
+                resolutions.push(checked ? checked.value : 'theirs');
+            }
+            document.getElementById('mergeSection').classList.add('hidden');
+            vscode.postMessage({ command: 'resolveMerge', resolutions });
+        }
+        
+        function skipMerge() {
+            document.getElementById('mergeSection').classList.add('hidden');
+            vscode.postMessage({ command: 'skipMerge' });
+        }
+        
         function showSummaryDisplay(summary) {
             document.getElementById('patchesSection').classList.add('hidden');
+            document.getElementById('mergeSection').classList.add('hidden');
             document.getElementById('summarySection').classList.remove('hidden');
             
             const container = document.getElementById('summaryContent');
@@ -401,10 +696,168 @@ function getWebviewContent(): string {
                 <div class="summary-stat">
                     <strong>Remaining Issues:</strong> \${summary.remainingIssues || 0}
                 </div>
-                <p style="margin-top: 20px;">\${summary.message || 'Migration completed!'}</p>
+                \${formatProgress(summary.progress)}
+                \${formatAutoApplied(summary.autoApplied || [])}
+                \${formatUnfixedInstances(summary.unfixedInstances || [])}
+                <p style="margin-top: 20px;">\${escapeHtml(summary.message || 'Migration completed!')}</p>
+            \`;
+        }
+        
+        function formatAutoApplied(patches) {
+            if (patches.length === 0) {
+                return '';
+            }
+            return \`
+                <div class="auto-applied">
+                    <strong>Applied without review (\${patches.length}):</strong>
+                    <ul>
+                        \${patches.map(patch => \`
+                            <li>\${escapeHtml(patch.description)} - \${escapeHtml(patch.filePath)} \${formatConfidence(patch.confidence)}</li>
+                        \`).join('')}
+                    </ul>
+                </div>
+            \`;
+        }
+        
+        function formatProgress(progress) {
+            if (!progress) {
+                return '';
+            }
+            const groups = [
+                ['New clusters', progress.newClusters],
+                ['Regressed', progress.regressed],
+                ['Resolved since the last run', progress.resolved],
+                ["Marked won't fix (not proposed)", progress.wontFix]
+            ].filter(([, items]) => items.length > 0);
+            if (groups.length === 0) {
+                return '';
+            }
+            return \`
+                <div class="cluster-progress">
+                    \${groups.map(([title, items]) => \`
+                        <strong>\${escapeHtml(title)} (\${items.length}):</strong>
+                        <ul>\${items.map(item => \`<li>\${escapeHtml(item)}</li>\`).join('')}</ul>
+                    \`).join('')}
+                </div>
+            \`;
+        }
+        
+        function formatUnfixedInstances(instances) {
+            if (instances.length === 0) {
+                return '';
+            }
+            return \`
+                <div class="unfixed-instances">
+                    <strong>Cluster instances not fixed (\${instances.length}):</strong>
+                    <ul>
+                        \${instances.map(instance => \`
+                            <li><code>\${escapeHtml(instance.location)}</code> \${escapeHtml(instance.message)}
+                                <div class="unfixed-reason">\${escapeHtml(instance.reason || '')}</div>
+                                \${formatConflict(instance.conflict)}</li>
+                        \`).join('')}
+                    </ul>
+                </div>
+            \`;
+        }
+        
+        function formatConflict(conflict) {
+            if (!conflict) {
+                return '';
+            }
+            const fileName = filePath => filePath.split('/').pop().split('\\\\').pop();
+            const code = conflict.code === undefined ? ''
+                : conflict.code <= -990000 ? 'NG' + (-conflict.code - 990000) : 'TS' + conflict.code;
+            const location = fileName(conflict.filePath) + ':' + conflict.lineNumber + (conflict.range ? ':' + conflict.range.start.column : '');
+            const related = (conflict.relatedInformation || []).map(item => \`
+                <li><code>\${escapeHtml(fileName(item.filePath) + ':' + item.lineNumber)}</code> \${escapeHtml(item.message)}</li>
+            \`).join('');
+            return \`
+                <details class="conflict-details">
+                    <summary>\${escapeHtml([code, location, conflict.program].filter(Boolean).join(' · '))}</summary>
+                    <pre>\${escapeHtml(conflict.messageChain || conflict.message)}</pre>
+                    \${conflict.excerpt ? \`<pre>\${escapeHtml(conflict.excerpt)}</pre>\` : ''}
+                    \${related ? \`<ul>\${related}</ul>\` : ''}
+                </details>
+            \`;
+        }
+        
+        function showInventoryDisplay(inventory) {
+            ['progressSection', 'patchesSection', 'mergeSection', 'summarySection']
+                .forEach(id => document.getElementById(id).classList.add('hidden'));
+            document.getElementById('inventorySection').classList.remove('hidden');
+            
+            const kinds = [
+                ['component', 'Components'],
+                ['directive', 'Directives'],
+                ['pipe', 'Pipes'],
+                ['injectable', 'Injectables'],
+                ['ngModule', 'NgModules']
+            ];
+            const counts = kinds
+                .map(([kind, title]) => [title, inventory.artifacts.filter(a => a.kind === kind).length])
+                .filter(([, count]) => count > 0)
+                .map(([title, count]) => title + ': ' + count);
+            document.getElementById('inventoryInfo').textContent = inventory.artifacts.length === 0
+                ? 'No Angular artifacts found.'
+                : counts.join(' · ');
+            
+            document.getElementById('inventoryContent').innerHTML = kinds.map(([kind, title]) => {
+                const artifacts = inventory.artifacts.filter(a => a.kind === kind);
+                if (artifacts.length === 0) {
+                    return '';
+                }
+                return \`
+                    <div class="inventory-kind">
+                        <h3>\${title} (\${artifacts.length})</h3>
+                        \${artifacts.map(formatArtifact).join('')}
+                    </div>
+                \`;
+            }).join('');
+        }
+        
+        function formatArtifact(artifact) {
+            const fileName = artifact.filePath.split('/').pop().split('\\\\').pop();
+            const fields = [
+                ['Selector', artifact.selector],
+                ['Name', artifact.pipeName],
+                ['Standalone', artifact.standalone === undefined ? undefined : String(artifact.standalone)],
+                ['Provided in', artifact.providedIn],
+                ['Declarations', artifact.declarations],
+                ['Imports', artifact.imports],
+                ['Exports', artifact.exports],
+                ['Providers', artifact.providers],
+                ['Inputs', artifact.inputs],
+                ['Outputs', artifact.outputs],
+                ['Template', artifact.templateUrl || (artifact.inlineTemplate ? 'inline' : undefined)],
+                ['Styles', artifact.styleUrls]
+            ].filter(([, value]) => value !== undefined && value.length !== 0);
+            return \`
+                <div class="inventory-artifact">
+                    <strong>\${escapeHtml(artifact.name)}</strong>
+                    <code>\${escapeHtml(fileName + ':' + artifact.lineNumber)}</code>
+                    \${fields.length > 0 ? \`<dl>\${fields.map(([label, value]) => \`
+                        <dt>\${label}</dt><dd>\${escapeHtml(Array.isArray(value) ? value.join(', ') : value)}</dd>
+                    \`).join('')}</dl>\` : ''}
+                </div>
             \`;
         }
         
+        function escapeHtml(text) {
+            return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+        }
+        
+        function previewPatch(index) {
+            vscode.postMessage({ command: 'previewPatch', patchIndex: index });
+        }
+        
+        function openInventoryJson() {
+            vscode.postMessage({ command: 'openInventoryJson' });
+        }
+        
+        function exportPatches() {
+            vscode.postMessage({ command: 'exportPatches' });
+        }
+        
         function approvePatch(index) {
             vscode.postMessage({ command: 'approvePatch', patchIndex: index });
         }
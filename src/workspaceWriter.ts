@@ -0,0 +1,267 @@
+// workspaceWriter.ts
+// This module commits file changes produced by the patcher.
+// Changes are written either straight to disk or through a vscode.WorkspaceEdit,
+// which honours open (and possibly dirty) editors and puts the change on the undo stack.
+// Either way, the ts-morph Project held by AngularAST is refreshed for the changed files.
+// Content is handled as LF text; each file's encoding, BOM and line endings are restored on write.
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { logInfo, logError } from './logger';
+import { getAngularAST } from './initializeWorkspace';
+import { decodeText, encodeText, normalizeLineEndings, DEFAULT_TEXT_FORMAT, TextFormat } from './textFormat';
+
+/**
+ * How patched content reaches the workspace.
+ * - `disk`: fs writes (used for temporary copies and headless runs)
+ * - `workspaceEdit`: VS Code WorkspaceEdit (undoable, respects open editors)
+ */
+export type WriteMode = 'disk' | 'workspaceEdit';
+
+/**
+ * A single file change to commit.
+ */
+export interface FileChange {
+    filePath: string;
+    /** Content before the change ('' for created files) */
+    original: string;
+    /** Content after the change, or null to delete the file */
+    content: string | null;
+    /** Set when the file is the target of a rename */
+    renamedFrom?: string;
+}
+
+/**
+ * Reads the current content of a file.
+ * In `workspaceEdit` mode the text of an open editor wins over the disk,
+ * so unsaved edits are patched rather than overwritten.
+ * The content is decoded from the file's encoding and CRLF line endings become LF.
+ *
+ * @param filePath - Absolute path to the file
+ * @param mode - Write mode the content will later be committed with
+ * @returns The current file content, as LF text
+ */
+export function readFileContent(filePath: string, mode: WriteMode): string {
+    if (mode === 'workspaceEdit') {
+        const document = findOpenDocument(filePath);
+        if (document) {
+            return normalizeLineEndings(document.getText());
+        }
+    }
+
+    return decodeText(fs.readFileSync(filePath)).text;
+}
+
+/**
+ * Resolves the configured write mode.
+ *
+ * @param mode - Explicit mode, if the caller has one
+ * @returns The mode to use
+ */
+export function resolveWriteMode(mode?: WriteMode): WriteMode {
+    return mode ?? vscode.workspace.getConfiguration('angularUpgrade').get<WriteMode>('patchApplyMode', 'workspaceEdit');
+}
+
+/**
+ * Commits a group of file changes atomically and refreshes the AST.
+ *
+ * @param changes - Changes to commit
+ * @param mode - Where to write them
+ * @param label - Label shown for the edit (e.g. in the undo history)
+ * @throws Error if the changes could not be committed; nothing is left half-written
+ */
+export async function writeFileChanges(changes: FileChange[], mode: WriteMode, label: string): Promise<void> {
+    if (mode === 'workspaceEdit') {
+        await applyWorkspaceEdit(changes, label);
+    } else {
+        writeToDisk(changes);
+    }
+
+    refreshAngularAST(changes);
+}
+
+/**
+ * Commits changes through a single WorkspaceEdit, which VS Code applies atomically.
+ * Files that were not dirty beforehand are saved so the disk stays in sync;
+ * dirty editors keep their unsaved state with the fix on top.
+ */
+async function applyWorkspaceEdit(changes: FileChange[], label: string): Promise<void> {
+    const edit = new vscode.WorkspaceEdit();
+    const metadata: vscode.WorkspaceEditEntryMetadata = { label, needsConfirmation: false };
+    const toSave: vscode.Uri[] = [];
+
+    for (const change of changes) {
+        const uri = vscode.Uri.file(change.filePath);
+
+        if (change.content === null) {
+            edit.deleteFile(uri, { ignoreIfNotExists: true }, metadata);
+            continue;
+        }
+
+        if (change.renamedFrom) {
+            edit.renameFile(vscode.Uri.file(change.renamedFrom), uri, { overwrite: false }, metadata);
+        } else if (!fs.existsSync(change.filePath) && !findOpenDocument(change.filePath)) {
+            edit.createFile(uri, { contents: encodeText(change.content, newFileFormat()) }, metadata);
+            continue;
+        }
+
+        // The editor converts the LF text to the document's own line endings
+        const replacement = minimalReplacement(change.original, change.content);
+        if (replacement) {
+            edit.replace(uri, replacement.range, replacement.text, metadata);
+
+            const document = findOpenDocument(change.renamedFrom ?? change.filePath);
+            if (!document || !document.isDirty) {
+                toSave.push(uri);
+            }
+        }
+    }
+
+    const applied = await vscode.workspace.applyEdit(edit);
+    if (!applied) {
+        throw new Error('VS Code rejected the workspace edit');
+    }
+
+    for (const uri of toSave) {
+        const document = await vscode.workspace.openTextDocument(uri);
+        await document.save();
+    }
+
+    logInfo(`Applied workspace edit to ${changes.length} file(s) (undo with Ctrl+Z)`);
+}
+
+/**
+ * Writes changes with fs, restoring every touched file if a write fails part-way.
+ * Each file keeps the encoding, BOM and line endings it had before the change.
+ */
+function writeToDisk(changes: FileChange[]): void {
+    // Snapshot every touched path so a failed write can be rolled back byte for byte
+    const snapshots = new Map<string, Buffer | null>();
+    for (const change of changes) {
+        for (const filePath of [change.filePath, change.renamedFrom]) {
+            if (filePath && !snapshots.has(filePath)) {
+                snapshots.set(filePath, fs.existsSync(filePath) ? fs.readFileSync(filePath) : null);
+            }
+        }
+    }
+
+    try {
+        for (const change of changes) {
+            if (change.renamedFrom) {
+                fs.unlinkSync(change.renamedFrom);
+            }
+
+            if (change.content === null) {
+                fs.unlinkSync(change.filePath);
+            } else {
+                // Renamed files take their format along; new files get the default one
+                const previous = snapshots.get(change.renamedFrom ?? change.filePath);
+                const decoded = previous ? decodeText(previous) : undefined;
+
+                fs.mkdirSync(path.dirname(change.filePath), { recursive: true });
+                fs.writeFileSync(change.filePath, encodeText(change.content, decoded?.format ?? newFileFormat(), decoded?.text));
+            }
+        }
+    } catch (error: any) {
+        logError('Write failed part-way - restoring files', error);
+
+        snapshots.forEach((content, filePath) => {
+            try {
+                if (content === null) {
+                    if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+                } else {
+                    fs.writeFileSync(filePath, content);
+                }
+            } catch (restoreError: any) {
+                logError(`Failed to restore ${filePath}`, restoreError);
+            }
+        });
+
+        throw error;
+    }
+}
+
+/**
+ * Pushes the new content of changed files into the ts-morph Project,
+ * so later diagnostics see the patched code without a full reload.
+ */
+function refreshAngularAST(changes: FileChange[]): void {
+    const angularAST = getAngularAST();
+    if (!angularAST) {
+        return;
+    }
+
+    const updates: Array<{ filePath: string; content: string | null }> = [];
+    for (const change of changes) {
+        if (change.renamedFrom) {
+            updates.push({ filePath: change.renamedFrom, content: null });
+        }
+        updates.push({ filePath: change.filePath, content: change.content });
+    }
+
+    angularAST.updateSourceFiles(updates);
+}
+
+/**
+ * Format for files created by a patch: UTF-8 without BOM, with the line
+ * ending from the `files.eol` setting when it names one.
+ */
+function newFileFormat(): TextFormat {
+    const eol = vscode.workspace.getConfiguration('files').get<string>('eol', 'auto');
+    return { ...DEFAULT_TEXT_FORMAT, eol: eol === '\r\n' ? '\r\n' : '\n' };
+}
+
+/**
+ * Finds an open text document for a path, if any.
+ */
+function findOpenDocument(filePath: string): vscode.TextDocument | undefined {
+    const normalized = path.normalize(filePath);
+    return vscode.workspace.textDocuments.find(doc => doc.uri.scheme === 'file' && path.normalize(doc.uri.fsPath) === normalized);
+}
+
+/**
+ * Computes the smallest single-range replacement turning `before` into `after`,
+ * so the editor keeps cursor positions and folding outside the change.
+ */
+function minimalReplacement(before: string, after: string): { range: vscode.Range; text: string } | null {
+    if (before === after) {
+        return null;
+    }
+
+    let start = 0;
+    while (start < before.length && start < after.length && before[start] === after[start]) {
+        start++;
+    }
+
+    let end = 0;
+    while (
+        end < before.length - start &&
+        end < after.length - start &&
+        before[before.length - 1 - end] === after[after.length - 1 - end]
+    ) {
+        end++;
+    }
+
+    return {
+        range: new vscode.Range(offsetToPosition(before, start), offsetToPosition(before, before.length - end)),
+        text: after.substring(start, after.length - end)
+    };
+}
+
+/**
+ * Converts a character offset into a line/character position.
+ */
+function offsetToPosition(text: string, offset: number): vscode.Position {
+    let line = 0;
+    let lineStart = 0;
+
+    for (let i = 0; i < offset; i++) {
+        if (text.charCodeAt(i) === 10) {
+            line++;
+            lineStart = i + 1;
+        }
+    }
+
+    return new vscode.Position(line, offset - lineStart);
+}